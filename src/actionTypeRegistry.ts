@@ -0,0 +1,64 @@
+import { Action, ActionDefinition } from './model/Action';
+import { BUILT_IN_ACTION_TYPES } from './builtInActionTypes';
+import { JsonSchema } from './schemas/actionSchemas';
+
+export interface ActionTypeDefinition<
+    A extends Action = Action,
+    D extends ActionDefinition = ActionDefinition
+> {
+    /* the value of the `type` property in the YAML action definitions */
+    readonly type: string;
+    /* checks the type specific properties of an action definition */
+    isValidDefinition(actionDef: ActionDefinition): actionDef is D;
+    /* JSON Schema of the action definitions, validated when loading the actions and scenarios */
+    readonly schema?: JsonSchema;
+    /* creates the action (template) from its definition in the action directory */
+    create(name: string, actionDef: D, envConfig: any): A;
+    /* creates the action of a scenario step, overriding the template with the step's properties */
+    fromTemplate(stepDef: any, template: A): A;
+    /* if TRUE the next action is invoked right away, the action itself is awaited at the end of the scenario */
+    readonly runsInBackground?: boolean;
+    /* if TRUE the action is cancelled when all foreground actions of the scenario are finished */
+    readonly cancelAtScenarioEnd?: boolean;
+}
+
+const actionTypes = new Map<string, ActionTypeDefinition>(
+    BUILT_IN_ACTION_TYPES.map(actionType => [actionType.type, actionType]),
+);
+
+/**
+ * Registers a custom action type, so that actions with the given `type` can be
+ * defined in the action directory and used in scenarios.
+ * @param actionType The definition of the action type
+ * @throws Error if an action type with the same name is already registered
+ */
+export function registerActionType<
+    A extends Action,
+    D extends ActionDefinition
+>(actionType: ActionTypeDefinition<A, D>): void {
+    if (actionTypes.has(actionType.type)) {
+        throw new Error(
+            `Action type '${actionType.type}' is already registered`,
+        );
+    }
+    actionTypes.set(actionType.type, actionType);
+}
+
+/**
+ * Unregisters a custom action type, e.g. to register another one with the
+ * same name or to clean up after a test.
+ * @param type The name of the action type
+ * @throws Error if the action type is a built-in one
+ */
+export function unregisterActionType(type: string): void {
+    if (BUILT_IN_ACTION_TYPES.some(actionType => actionType.type === type)) {
+        throw new Error(
+            `Action type '${type}' is built-in and cannot be unregistered`,
+        );
+    }
+    actionTypes.delete(type);
+}
+
+export function findActionType(type: string): ActionTypeDefinition | undefined {
+    return actionTypes.get(type);
+}
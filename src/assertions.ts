@@ -0,0 +1,295 @@
+import { ExpressionBindings, evaluateExpression } from './expressionEvaluation';
+import { evaluateJsonPath, extractJsonPath } from './jsonPath';
+import { LoggingContext } from './logging';
+import { AssertionFailedError } from './model/error/AssertionFailedError';
+import {
+    Assertion,
+    JsonPathAssertion,
+    ValidationDefinition,
+    ValueType,
+    VariableDefinition,
+} from './model/Assertion';
+import { deepEqual } from './util';
+import { injectEvalAndVarsToMap } from './variableInjection';
+
+function typeOf(value: unknown): ValueType {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value as ValueType;
+}
+
+function containsValue(actual: unknown, expected: unknown): boolean {
+    if (typeof actual === 'string') return actual.includes(String(expected));
+    if (Array.isArray(actual)) return actual.some(e => deepEqual(e, expected));
+    if (
+        typeof actual !== 'object' ||
+        actual === null ||
+        typeof expected !== 'object' ||
+        expected === null
+    ) {
+        return false;
+    }
+    const actualObject = actual as { [key: string]: unknown };
+    return Object.entries(expected as object).every(([key, value]) =>
+        deepEqual(actualObject[key], value),
+    );
+}
+
+/**
+ * Checks the actual value given by the JSONPath (evaluated against the
+ * payload) or the expression of the assertion against all of its checks.
+ * @throws AssertionFailedError with the expected and the actual value of the
+ * first failed check
+ * @throws JsonPathError if the path is not well-formed
+ */
+export function checkAssertion(
+    {
+        path,
+        value,
+        equals,
+        deepEquals,
+        contains,
+        matches,
+        matchesRegex,
+        greaterThan,
+        type,
+        count,
+        length,
+        exists,
+    }: Assertion,
+    payload: unknown,
+    scenarioVariables: Map<string, unknown> = new Map(),
+    bindings: ExpressionBindings = {},
+): void {
+    let values: unknown[];
+    let definite = true;
+    if (path !== undefined) {
+        ({ values, definite } = evaluateJsonPath(path, payload));
+    } else {
+        const result = evaluateExpression(
+            value ?? 'undefined',
+            scenarioVariables,
+            bindings,
+        );
+        values = result !== undefined ? [result] : [];
+    }
+    const actual = values.length === 1 ? values[0] : values;
+    const fail = (
+        check: string,
+        expected: unknown,
+        actualValue: unknown,
+    ): never => {
+        throw new AssertionFailedError(
+            `${path !== undefined ? `'${path}'` : `(${value})`} ${check}`,
+            expected,
+            actualValue,
+        );
+    };
+
+    if (exists !== undefined && exists !== values.length > 0) {
+        fail('exists', exists, values.length > 0);
+    }
+    if (exists === false) return;
+    // a path matching several values may match none, e.g. for `count: 0`
+    if (values.length === 0 && definite) fail('exists', true, false);
+
+    if (equals !== undefined && !deepEqual(actual, equals)) {
+        fail('equals', equals, actual);
+    }
+    if (deepEquals !== undefined && !deepEqual(actual, deepEquals)) {
+        fail('deepEquals', deepEquals, actual);
+    }
+    if (contains !== undefined && !containsValue(actual, contains)) {
+        fail('contains', contains, actual);
+    }
+    const matchesPattern = (pattern: string): boolean =>
+        new RegExp(pattern).test(
+            typeof actual === 'string' ? actual : JSON.stringify(actual),
+        );
+    if (matches !== undefined && !matchesPattern(matches)) {
+        fail('matches', matches, actual);
+    }
+    if (matchesRegex !== undefined && !matchesPattern(matchesRegex)) {
+        fail('matchesRegex', matchesRegex, actual);
+    }
+    if (
+        greaterThan !== undefined &&
+        !(typeof actual === 'number' && actual > greaterThan)
+    ) {
+        fail('greaterThan', greaterThan, actual);
+    }
+    if (type !== undefined && typeOf(actual) !== type) {
+        fail('type', type, typeOf(actual));
+    }
+    if (count !== undefined) {
+        let actualCount: number | undefined = values.length;
+        if (definite) {
+            actualCount = Array.isArray(actual) ? actual.length : undefined;
+        }
+        if (actualCount !== count) fail('count', count, actualCount);
+    }
+    if (length !== undefined) {
+        const actualLength = definite
+            ? (actual as { length?: unknown }).length
+            : values.length;
+        if (actualLength !== length) fail('length', length, actualLength);
+    }
+}
+
+/* the operands of an expression consisting of a single (top-level) equality, e.g. `res.name === 'alt'` */
+function equalityOperandsOf(expression: string): [string, string] | undefined {
+    const operators: { index: number; operator: string }[] = [];
+    let depth = 0;
+    let quote: string | undefined;
+    for (let i = 0; i < expression.length; i++) {
+        const char = expression[i];
+        if (quote !== undefined) {
+            if (char === '\\') i++;
+            else if (char === quote) quote = undefined;
+        } else if (`'"\``.includes(char)) quote = char;
+        else if ('([{'.includes(char)) depth++;
+        else if (')]}'.includes(char)) depth--;
+        else if (depth === 0) {
+            const operator = ['===', '!==', '==', '!=', '=>', '&&', '||']
+                .concat(['>', '<', '?', ';', ','])
+                .find(o => expression.startsWith(o, i));
+            if (operator !== undefined) {
+                operators.push({ index: i, operator });
+                i += operator.length - 1;
+            }
+        }
+    }
+    if (operators.length !== 1) return undefined;
+    const [{ index, operator }] = operators;
+    return ['==', '==='].includes(operator)
+        ? [
+              expression.substring(0, index).trim(),
+              expression.substring(index + operator.length).trim(),
+          ]
+        : undefined;
+}
+
+/**
+ * Checks an assertion on the value matched by a JSONPath.
+ * @throws AssertionFailedError with the expected and the actual value of the
+ * first failed check
+ * @throws JsonPathError if the path is not well-formed
+ */
+export function checkJsonPathAssertion(
+    assertion: JsonPathAssertion,
+    payload: unknown,
+): void {
+    checkAssertion(assertion, payload);
+}
+
+/**
+ * Explains why an expression like `res.name === 'alt'` is falsy by evaluating
+ * both operands of its equality, the right one is considered the expected
+ * value. Note that the operands are evaluated once more.
+ * @returns The failed assertion or `undefined` if the expression is no single
+ * equality or its operands cannot be evaluated
+ */
+export function explainFailedExpression(
+    expression: string,
+    scenarioVariables: Map<string, unknown>,
+    bindings: ExpressionBindings,
+): AssertionFailedError | undefined {
+    const operands = equalityOperandsOf(expression);
+    if (operands === undefined) return undefined;
+    try {
+        const [actual, expected] = operands.map(operand =>
+            evaluateExpression(operand, scenarioVariables, bindings),
+        );
+        return new AssertionFailedError(`(${expression})`, expected, actual);
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Checks a validation of a response or message: an expression has to be
+ * truthy, an assertion is checked after injecting the scenario's variables,
+ * e.g. into the expected value.
+ * @param validation The expression or assertion
+ * @param scenarioVariables The variables of the scenario
+ * @param bindings The bindings of the expression, e.g. `res`
+ * @param payload The value the JSONPath is evaluated against
+ * @param ctx The logging context of the action
+ * @throws AssertionFailedError if an assertion or equality fails
+ * @throws Error if another expression is falsy or cannot be evaluated
+ */
+export function checkValidation(
+    validation: ValidationDefinition,
+    scenarioVariables: Map<string, unknown>,
+    bindings: ExpressionBindings,
+    payload: unknown,
+    ctx: LoggingContext,
+): void {
+    if (typeof validation === 'string') {
+        if (!evaluateExpression(validation, scenarioVariables, bindings)) {
+            throw explainFailedExpression(
+                validation,
+                scenarioVariables,
+                bindings,
+            ) ?? new Error(`Validation failed: (${validation})`);
+        }
+    } else {
+        checkAssertion(
+            injectEvalAndVarsToMap(validation, scenarioVariables, ctx),
+            payload,
+            scenarioVariables,
+            bindings,
+        );
+    }
+}
+
+/**
+ * Extracts the value of a variable from a response or message: an expression
+ * is evaluated, a JSONPath is evaluated against the payload after injecting
+ * the scenario's variables.
+ * @throws Error if the expression fails or the path matches nothing
+ */
+export function extractVariable(
+    definition: VariableDefinition,
+    scenarioVariables: Map<string, unknown>,
+    bindings: ExpressionBindings,
+    payload: unknown,
+    ctx: LoggingContext,
+): unknown {
+    return typeof definition === 'string'
+        ? evaluateExpression(definition, scenarioVariables, bindings)
+        : extractJsonPath(
+              injectEvalAndVarsToMap(definition, scenarioVariables, ctx)
+                  .jsonPath,
+              payload,
+          );
+}
+
+/* what a listener checks and extracts from every relevant message */
+export interface MessageChecks {
+    readonly messageValidation?: ValidationDefinition[];
+    readonly variables?: { readonly [name: string]: VariableDefinition };
+}
+
+/**
+ * Validates a relevant message received by a listener and extracts the
+ * variables from it, so the variables hold the values of the last message.
+ * The message is available as `msg` in the expressions.
+ * @throws Error if a validation fails or a variable cannot be extracted
+ */
+export function checkMessage(
+    msg: unknown,
+    { messageValidation = [], variables = {} }: MessageChecks,
+    scenarioVariables: Map<string, unknown>,
+    ctx: LoggingContext,
+): void {
+    messageValidation.forEach(validation =>
+        checkValidation(validation, scenarioVariables, { msg }, msg, ctx),
+    );
+    Object.entries(variables).forEach(([name, definition]) =>
+        scenarioVariables.set(
+            name,
+            extractVariable(definition, scenarioVariables, { msg }, msg, ctx),
+        ),
+    );
+}
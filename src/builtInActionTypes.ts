@@ -0,0 +1,215 @@
+import { ActionTypeDefinition } from './actionTypeRegistry';
+import { ActionDefinition } from './model/Action';
+import { ActionType } from './model/ActionType';
+import {
+    AMQPListenAction,
+    AMQPListenActionDefinition,
+    isValidAMQPListenActionDefinition,
+} from './model/AMQPListenAction';
+import { MqttAction } from './model/MqttAction';
+import { MqttPublishAction } from './model/MqttPublishAction';
+import {
+    isValidNodeJSActionDefinition,
+    NodeJSAction,
+} from './model/NodeJSAction';
+import {
+    isRestActionDefinition,
+    RestAction,
+    RestActionDefinition,
+} from './model/RestAction';
+import { TimerAction } from './model/TimerAction';
+import {
+    AMQP_LISTEN_ACTION_SCHEMA,
+    MQTT_ACTION_SCHEMA,
+    MQTT_PUBLISH_ACTION_SCHEMA,
+    NODE_JS_ACTION_SCHEMA,
+    REST_ACTION_SCHEMA,
+    TIMER_ACTION_SCHEMA,
+    WEBSOCKET_ACTION_SCHEMA,
+} from './schemas/actionSchemas';
+import {
+    isWebSocketActionDefinition,
+    WebSocketAction,
+    WebSocketActionDefinition,
+} from './model/WebSocketAction';
+
+type UrlProperty = 'service' | 'broker';
+
+type UrlActionDefinition = ActionDefinition & { [P in UrlProperty]?: string };
+
+/*
+ * The property of the action definition containing the URL (or the key of the
+ * URL in the environment configuration), the protocol identifying a URL and
+ * the protocol assumed if the URL from the environment configuration does not
+ * specify one.
+ */
+const URL_PROPERTIES: {
+    [type: string]: {
+        property: UrlProperty;
+        protocol: string;
+        default: string;
+    };
+} = {
+    REST: { property: 'service', protocol: 'http', default: 'https' },
+    WEBSOCKET: { property: 'service', protocol: 'ws', default: 'wss' },
+    AMQP_LISTEN: { property: 'broker', protocol: 'amqp', default: 'amqps' },
+};
+
+/**
+ * Returns the key the URL of the action is looked up with in the environment
+ * configuration or `undefined` if the action definition contains the URL
+ * itself or does not need one.
+ * @param actionDef The action definition
+ */
+export const environmentKeyOf = (
+    actionDef: ActionDefinition,
+): string | undefined => {
+    const urlProperties = URL_PROPERTIES[actionDef.type];
+    if (urlProperties === undefined) return undefined;
+    const value = (actionDef as UrlActionDefinition)[
+        urlProperties.property
+    ] as string;
+    return value.startsWith(urlProperties.protocol) ? undefined : value;
+};
+
+/**
+ * Extracts the URL from the action definition if present or otherwise from the
+ * environment configuration. In case of REST actions, if the http protocol is
+ * not specified explicitly, https is assumed. In case of WebSocket actions, if
+ * the ws protocol is not specified explicitly, wss is assumed. In case of
+ * AMQPListenActions if the amqp protocol is not specified explicitly, amqps is
+ * assumed.
+ * @param actionDef The action definition
+ * @param envConfig The environment configuration
+ */
+const getURL = (
+    actionDef:
+        | AMQPListenActionDefinition
+        | RestActionDefinition
+        | WebSocketActionDefinition,
+    envConfig: any,
+): string => {
+    const urlProperties = URL_PROPERTIES[actionDef.type];
+    if (urlProperties === undefined) {
+        throw new Error(
+            `Cannot get URL for action type ${
+                (actionDef as ActionDefinition).type
+            }`,
+        );
+    }
+    const key = environmentKeyOf(actionDef);
+    if (key === undefined) {
+        return (actionDef as UrlActionDefinition)[
+            urlProperties.property
+        ] as string;
+    }
+    if (envConfig[key].startsWith(urlProperties.protocol)) {
+        return envConfig[key];
+    }
+    return `${urlProperties.default}://${envConfig[key]}`;
+};
+
+/* the action types without any type specific validation */
+const anyActionDefinition = (
+    actionDef: ActionDefinition,
+): actionDef is ActionDefinition => typeof actionDef === 'object';
+
+const rest: ActionTypeDefinition<RestAction, RestActionDefinition> = {
+    type: ActionType[ActionType.REST],
+    isValidDefinition: isRestActionDefinition,
+    schema: REST_ACTION_SCHEMA,
+    create: (name, actionDef, envConfig) =>
+        new RestAction(
+            name,
+            undefined,
+            actionDef,
+            getURL(actionDef, envConfig) + actionDef.endpoint,
+            actionDef.service,
+        ),
+    fromTemplate: (stepDef, template) =>
+        RestAction.fromTemplate(stepDef, template),
+};
+
+const timer: ActionTypeDefinition<TimerAction> = {
+    type: ActionType[ActionType.TIMER],
+    isValidDefinition: anyActionDefinition,
+    schema: TIMER_ACTION_SCHEMA,
+    create: (name, actionDef) => new TimerAction(name, undefined, actionDef),
+    fromTemplate: (stepDef, template) =>
+        TimerAction.fromTemplate(stepDef, template),
+};
+
+const webSocket: ActionTypeDefinition<
+    WebSocketAction,
+    WebSocketActionDefinition
+> = {
+    type: ActionType[ActionType.WEBSOCKET],
+    isValidDefinition: isWebSocketActionDefinition,
+    schema: WEBSOCKET_ACTION_SCHEMA,
+    create: (name, actionDef, envConfig) =>
+        new WebSocketAction(
+            name,
+            undefined,
+            actionDef,
+            actionDef.service,
+            getURL(actionDef, envConfig) + actionDef.endpoint,
+        ),
+    fromTemplate: (stepDef, template) =>
+        WebSocketAction.fromTemplate(stepDef, template),
+    runsInBackground: true,
+    cancelAtScenarioEnd: true,
+};
+
+const mqtt: ActionTypeDefinition<MqttAction> = {
+    type: ActionType[ActionType.MQTT],
+    isValidDefinition: anyActionDefinition,
+    schema: MQTT_ACTION_SCHEMA,
+    create: (name, actionDef) => new MqttAction(name, undefined, actionDef),
+    fromTemplate: (stepDef, template) =>
+        MqttAction.fromTemplate(stepDef, template),
+    runsInBackground: true,
+};
+
+const mqttPublish: ActionTypeDefinition<MqttPublishAction> = {
+    type: ActionType[ActionType.MQTT_PUBLISH],
+    isValidDefinition: anyActionDefinition,
+    schema: MQTT_PUBLISH_ACTION_SCHEMA,
+    create: (name, actionDef) =>
+        new MqttPublishAction(name, undefined, actionDef),
+    fromTemplate: (stepDef, template) =>
+        MqttPublishAction.fromTemplate(stepDef, template),
+};
+
+const amqpListen: ActionTypeDefinition<
+    AMQPListenAction,
+    AMQPListenActionDefinition
+> = {
+    type: ActionType[ActionType.AMQP_LISTEN],
+    isValidDefinition: isValidAMQPListenActionDefinition,
+    schema: AMQP_LISTEN_ACTION_SCHEMA,
+    create: (name, actionDef, envConfig) =>
+        new AMQPListenAction(name, getURL(actionDef, envConfig), actionDef),
+    fromTemplate: (stepDef, template) =>
+        AMQPListenAction.fromTemplate(stepDef, template),
+    runsInBackground: true,
+    cancelAtScenarioEnd: true,
+};
+
+const nodeJS: ActionTypeDefinition<NodeJSAction> = {
+    type: ActionType[ActionType.NODE_JS],
+    isValidDefinition: isValidNodeJSActionDefinition,
+    schema: NODE_JS_ACTION_SCHEMA,
+    create: (name, actionDef) => new NodeJSAction(name, actionDef),
+    fromTemplate: (stepDef, template) =>
+        NodeJSAction.fromTemplate(stepDef, template),
+};
+
+export const BUILT_IN_ACTION_TYPES: ActionTypeDefinition[] = [
+    rest,
+    timer,
+    webSocket,
+    mqtt,
+    mqttPublish,
+    amqpListen,
+    nodeJS,
+];
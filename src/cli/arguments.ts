@@ -0,0 +1,237 @@
+import { UsageError } from '../model/error/UsageError';
+
+export type ReportFormat = 'junit' | 'html';
+
+const REPORT_FORMATS: ReportFormat[] = ['junit', 'html'];
+
+export interface CliOptions {
+    readonly command: 'run' | 'validate' | 'help';
+    readonly actionDir?: string;
+    readonly scenarioPaths: string[];
+    readonly envConfigDir?: string;
+    readonly environmentName?: string;
+    readonly importDir?: string;
+    readonly flowDir?: string;
+    readonly numberOfScenariosRunInParallel?: number;
+    readonly maxScenarioStartsPerSecond?: number;
+    readonly includeTags?: string;
+    readonly excludeTags?: string;
+    readonly seed?: string;
+    readonly drawDiagrams: boolean;
+    readonly outDir: string;
+    readonly reportFormats: ReportFormat[];
+}
+
+export const USAGE = `Usage: alt <command> [options] [scenario paths or globs...]
+
+Commands:
+  run                          run the given scenarios
+  validate                     check the actions and the scenarios in the given directories without running them
+  help                         print this help
+
+Options:
+  -a, --actions <dir>          directory containing the action definitions (required)
+  -e, --env-dir <dir>          directory containing the environment configurations
+  -n, --env <name>             name of the environment configuration to be used
+  -i, --import-dir <dir>       directory containing shared scenarios which can be imported
+  -f, --flow-dir <dir>         directory containing flows which can be invoked by the scenarios
+  -p, --parallel <number>      number of scenarios run in parallel (default: 10)
+      --rate <number>          maximum number of scenarios started per second
+  -t, --tags <expression>      only run scenarios whose tags match, e.g. 'smoke && !slow'
+      --exclude-tags <expression>
+                               do not run scenarios whose tags match
+      --seed <value>           seed of the random values, e.g. to reproduce the payloads of a run
+  -o, --out <dir>              output directory for logs, diagrams and reports (default: out)
+  -r, --report <formats>       comma separated list of reports to be written (${REPORT_FORMATS.join(
+      ', ',
+  )})
+      --no-diagrams            do not draw sequence diagrams
+  -h, --help                   print this help
+
+Exit codes:
+  0  all scenarios passed
+  1  at least one scenario failed (run) or at least one issue was found (validate)
+  2  invalid usage or configuration
+`;
+
+function parseNumber(option: string, value: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new UsageError(
+            `Option ${option} expects a positive integer but got '${value}'`,
+        );
+    }
+    return parsed;
+}
+
+function parsePositiveNumber(option: string, value: string): number {
+    const parsed = Number(value);
+    if (Number.isNaN(parsed) || parsed <= 0) {
+        throw new UsageError(
+            `Option ${option} expects a positive number but got '${value}'`,
+        );
+    }
+    return parsed;
+}
+
+function parseReportFormats(value: string): ReportFormat[] {
+    return value
+        .split(',')
+        .map(format => format.trim())
+        .filter(format => format !== '')
+        .map(format => {
+            if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+                throw new UsageError(
+                    `Unknown report format '${format}', supported formats are: ${REPORT_FORMATS.join(
+                        ', ',
+                    )}`,
+                );
+            }
+            return format as ReportFormat;
+        });
+}
+
+/**
+ * Parses the command line arguments (without the node executable and the
+ * script path) into the options of the CLI.
+ * @param args The command line arguments
+ */
+export function parseArguments(args: string[]): CliOptions {
+    const [command, ...rest] = args;
+    const helpOptions: CliOptions = {
+        command: 'help',
+        scenarioPaths: [],
+        drawDiagrams: true,
+        outDir: 'out',
+        reportFormats: [],
+    };
+
+    if (
+        command === undefined ||
+        command === 'help' ||
+        command === '-h' ||
+        command === '--help'
+    ) {
+        return helpOptions;
+    }
+    if (command !== 'run' && command !== 'validate') {
+        throw new UsageError(`Unknown command '${command}'`);
+    }
+
+    let actionDir: string | undefined;
+    let envConfigDir: string | undefined;
+    let environmentName: string | undefined;
+    let importDir: string | undefined;
+    let flowDir: string | undefined;
+    let numberOfScenariosRunInParallel: number | undefined;
+    let maxScenarioStartsPerSecond: number | undefined;
+    let includeTags: string | undefined;
+    let excludeTags: string | undefined;
+    let seed: string | undefined;
+    let drawDiagrams = true;
+    let outDir = 'out';
+    let reportFormats: ReportFormat[] = [];
+    const scenarioPaths: string[] = [];
+
+    for (let i = 0; i < rest.length; i++) {
+        const arg = rest[i];
+        const [option, inlineValue] = arg.startsWith('--')
+            ? arg.split(/=(.*)/)
+            : [arg, undefined];
+        const value = (): string => {
+            if (inlineValue !== undefined) return inlineValue;
+            i++;
+            if (i >= rest.length || rest[i].startsWith('-')) {
+                throw new UsageError(`Option ${option} expects a value`);
+            }
+            return rest[i];
+        };
+
+        switch (option) {
+            case '-a':
+            case '--actions':
+                actionDir = value();
+                break;
+            case '-e':
+            case '--env-dir':
+                envConfigDir = value();
+                break;
+            case '-n':
+            case '--env':
+                environmentName = value();
+                break;
+            case '-i':
+            case '--import-dir':
+                importDir = value();
+                break;
+            case '-f':
+            case '--flow-dir':
+                flowDir = value();
+                break;
+            case '-p':
+            case '--parallel':
+                numberOfScenariosRunInParallel = parseNumber(option, value());
+                break;
+            case '--rate':
+                maxScenarioStartsPerSecond = parsePositiveNumber(
+                    option,
+                    value(),
+                );
+                break;
+            case '-t':
+            case '--tags':
+                includeTags = value();
+                break;
+            case '--exclude-tags':
+                excludeTags = value();
+                break;
+            case '--seed':
+                seed = value();
+                break;
+            case '-o':
+            case '--out':
+                outDir = value();
+                break;
+            case '-r':
+            case '--report':
+                reportFormats = parseReportFormats(value());
+                break;
+            case '--no-diagrams':
+                drawDiagrams = false;
+                break;
+            case '-h':
+            case '--help':
+                return helpOptions;
+            default:
+                if (option.startsWith('-')) {
+                    throw new UsageError(`Unknown option '${option}'`);
+                }
+                scenarioPaths.push(arg);
+        }
+    }
+
+    if (actionDir === undefined) {
+        throw new UsageError('Missing required option --actions');
+    }
+    if (scenarioPaths.length === 0) {
+        throw new UsageError('Missing scenario paths');
+    }
+
+    return {
+        command,
+        actionDir,
+        scenarioPaths,
+        envConfigDir,
+        environmentName,
+        importDir,
+        flowDir,
+        numberOfScenariosRunInParallel,
+        maxScenarioStartsPerSecond,
+        includeTags,
+        excludeTags,
+        seed,
+        drawDiagrams,
+        outDir,
+        reportFormats,
+    };
+}
@@ -0,0 +1,70 @@
+import { existsSync, readdirSync, statSync } from 'fs';
+
+const GLOB_CHARACTERS = /[*?]/;
+
+/* only the scenario files are matched, like the loaders do for directories */
+const SCENARIO_FILE_SUFFIX = '.yaml';
+
+export function isGlob(path: string): boolean {
+    return GLOB_CHARACTERS.test(path);
+}
+
+/**
+ * Converts a glob pattern into a regular expression. Supported are `*` (any
+ * characters except `/`), `?` (a single character except `/`) and `**` (any
+ * number of directories).
+ * @param pattern The glob pattern
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let regex = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            const followedBySlash = pattern[i + 2] === '/';
+            regex += followedBySlash ? '(?:.*/)?' : '.*';
+            i += followedBySlash ? 2 : 1;
+        } else if (char === '*') {
+            regex += '[^/]*';
+        } else if (char === '?') {
+            regex += '[^/]';
+        } else {
+            regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${regex}$`);
+}
+
+function listFilesRecursively(dir: string): string[] {
+    return readdirSync(dir).reduce((files: string[], file) => {
+        const path = `${dir}/${file}`;
+        return statSync(path).isDirectory()
+            ? files.concat(listFilesRecursively(path))
+            : files.concat(path);
+    }, []);
+}
+
+/**
+ * Expands a glob pattern into the sorted list of matching YAML files, other
+ * files (e.g. a README matched by `scenarios/*`) are left out. Paths without
+ * any glob characters are returned unchanged.
+ * @param pattern The path or glob pattern, e.g. `scenarios/smoke-*.yaml`
+ */
+export function expandGlob(pattern: string): string[] {
+    if (!isGlob(pattern)) {
+        return [pattern];
+    }
+    const segments = pattern.split('/');
+    const firstGlobSegment = segments.findIndex(segment => isGlob(segment));
+    const baseDir = segments.slice(0, firstGlobSegment).join('/') || '.';
+    const matcher = globToRegExp(pattern.replace(/^\.\//, ''));
+    if (!existsSync(baseDir)) {
+        return [];
+    }
+
+    return listFilesRecursively(baseDir)
+        .map(path => path.replace(/^\.\//, ''))
+        .filter(
+            path => path.endsWith(SCENARIO_FILE_SUFFIX) && matcher.test(path),
+        )
+        .sort();
+}
@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+import { runMultipleScenariosWithConfigAsync } from '../index';
+import { UsageError } from '../model/error/UsageError';
+import { CliOptions, parseArguments, USAGE } from './arguments';
+import { expandGlob } from './glob';
+import { validateSuite } from '../suiteValidation';
+
+export const EXIT_SUCCESS = 0;
+export const EXIT_TEST_FAILURE = 1;
+export const EXIT_CONFIGURATION_ERROR = 2;
+
+export interface CliOutput {
+    log(text: string): void;
+    error(text: string): void;
+}
+
+const processOutput: CliOutput = {
+    log: text => process.stdout.write(`${text}\n`),
+    error: text => process.stderr.write(`${text}\n`),
+};
+
+async function run(options: CliOptions, output: CliOutput): Promise<number> {
+    const scenarioPaths = ([] as string[]).concat(
+        ...options.scenarioPaths.map(expandGlob),
+    );
+    if (scenarioPaths.length === 0) {
+        output.error(
+            `No scenario found matching: ${options.scenarioPaths.join(' ')}`,
+        );
+        return EXIT_CONFIGURATION_ERROR;
+    }
+
+    const report = await runMultipleScenariosWithConfigAsync(
+        options.actionDir as string, // required option, checked while parsing
+        options.outDir,
+        options.envConfigDir ?? '',
+        {
+            numberOfScenariosRunInParallel:
+                options.numberOfScenariosRunInParallel,
+            maxScenarioStartsPerSecond: options.maxScenarioStartsPerSecond,
+            includeTags: options.includeTags,
+            excludeTags: options.excludeTags,
+            environmentNameToBeUsed: options.environmentName,
+            importDir: options.importDir,
+            flowDir: options.flowDir,
+            seed: options.seed,
+            drawDiagrams: options.drawDiagrams,
+            writeJUnitReport: options.reportFormats.includes('junit'),
+            writeHtmlReport: options.reportFormats.includes('html'),
+        },
+        scenarioPaths,
+    );
+
+    if (report.error !== undefined) {
+        output.error(report.error);
+        return EXIT_CONFIGURATION_ERROR;
+    }
+    return report.successful ? EXIT_SUCCESS : EXIT_TEST_FAILURE;
+}
+
+function validate(options: CliOptions, output: CliOutput): number {
+    const scenarioPaths = ([] as string[]).concat(
+        ...options.scenarioPaths.map(expandGlob),
+    );
+
+    const report = validateSuite(
+        options.actionDir as string, // required option, checked while parsing
+        scenarioPaths,
+        options.envConfigDir,
+        options.environmentName,
+        options.importDir,
+        options.flowDir,
+    );
+    report.issues.forEach(issue => output.error(issue));
+    output.log(
+        report.valid
+            ? 'No issues found'
+            : `${report.issues.length} issue(s) found`,
+    );
+    return report.valid ? EXIT_SUCCESS : EXIT_TEST_FAILURE;
+}
+
+/**
+ * Entrypoint of the `alt` command line interface.
+ * @param args The command line arguments without the node executable and the
+ * script path
+ * @param output Where to print messages to, defaults to stdout and stderr
+ * @returns The exit code
+ */
+export async function main(
+    args: string[],
+    output: CliOutput = processOutput,
+): Promise<number> {
+    let options: CliOptions;
+    try {
+        options = parseArguments(args);
+    } catch (e) {
+        if (e instanceof UsageError) {
+            output.error(`${e.message}\n\n${USAGE}`);
+            return EXIT_CONFIGURATION_ERROR;
+        }
+        throw e;
+    }
+
+    if (options.command === 'help') {
+        output.log(USAGE);
+        return EXIT_SUCCESS;
+    }
+    if (options.command === 'validate') {
+        return validate(options, output);
+    }
+    return run(options, output);
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(
+        exitCode => process.exit(exitCode),
+        error => {
+            processOutput.error(`${error}`);
+            process.exit(EXIT_CONFIGURATION_ERROR);
+        },
+    );
+}
@@ -0,0 +1,239 @@
+import { createHash, createHmac } from 'crypto';
+
+/* returns a pseudo-random number in [0, 1) like `Math.random` */
+export type RandomSource = () => number;
+
+/* the modulus and the multiplier of the Park-Miller generator (MINSTD) */
+const MODULUS = 2147483647;
+const MULTIPLIER = 48271;
+
+const ALPHANUMERICS =
+    'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+const FIRST_NAMES = [
+    'Anna',
+    'Ben',
+    'Clara',
+    'David',
+    'Emma',
+    'Felix',
+    'Hannah',
+    'Jonas',
+    'Laura',
+    'Lukas',
+    'Maria',
+    'Noah',
+    'Olivia',
+    'Paul',
+    'Sophie',
+    'Tom',
+];
+
+const LAST_NAMES = [
+    'Becker',
+    'Fischer',
+    'Hoffmann',
+    'Klein',
+    'Koch',
+    'Meyer',
+    'Miller',
+    'Müller',
+    'Richter',
+    'Schmidt',
+    'Schneider',
+    'Schulz',
+    'Smith',
+    'Wagner',
+    'Weber',
+    'Wolf',
+];
+
+const STREETS = [
+    'Bahnhofstraße',
+    'Gartenweg',
+    'Hauptstraße',
+    'High Street',
+    'Lindenallee',
+    'Main Street',
+    'Marktplatz',
+    'Parkstraße',
+    'Schillerstraße',
+    'Station Road',
+];
+
+const CITIES = [
+    'Berlin',
+    'Cologne',
+    'Frankfurt',
+    'Hamburg',
+    'Leipzig',
+    'Munich',
+    'Nuremberg',
+    'Stuttgart',
+];
+
+const UNITS_IN_MS: { [unit: string]: number } = {
+    milliseconds: 1,
+    seconds: 1e3,
+    minutes: 60e3,
+    hours: 3600e3,
+    days: 86400e3,
+    weeks: 7 * 86400e3,
+};
+
+/* the variables each random source belongs to, i.e. the ones of a scenario or flow */
+const randomSources = new WeakMap<Map<string, unknown>, RandomSource>();
+
+/**
+ * Creates a pseudo-random generator (Park-Miller), which generates the same
+ * numbers for the same seed, e.g. to reproduce the payloads of a run.
+ * @param seed Any number or string, e.g. the seed of the run and the name of
+ * the scenario
+ */
+export function seededRandom(seed: number | string): RandomSource {
+    let state = String(seed)
+        .split('')
+        .reduce(
+            (hash, char) => (hash * 31 + char.charCodeAt(0)) % MODULUS,
+            MULTIPLIER,
+        );
+    if (state === 0) state = MULTIPLIER;
+    return () => {
+        state = (state * MULTIPLIER) % MODULUS;
+        return (state - 1) / (MODULUS - 1);
+    };
+}
+
+/* generates the random values of the expressions evaluated against the variables */
+export function useRandomSource(
+    vars: Map<string, unknown>,
+    random: RandomSource,
+): void {
+    randomSources.set(vars, random);
+}
+
+/* the random source of the variables, `Math.random` unless the run is seeded */
+export function randomSourceOf(vars: Map<string, unknown>): RandomSource {
+    return randomSources.get(vars) ?? Math.random;
+}
+
+const base64UrlOf = (value: unknown): string =>
+    Buffer.from(JSON.stringify(value))
+        .toString('base64')
+        .replace(/=+$/, '')
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_');
+
+const dateOf = (date: string | number | Date = Date.now()): Date =>
+    new Date(date);
+
+/**
+ * The helpers generating test data available in every expression, all random
+ * values are taken from the given source.
+ */
+export function dataHelpersOf(
+    random: RandomSource,
+): { [name: string]: unknown } {
+    const randomInt = (min: number, max: number): number =>
+        Math.floor(min + random() * (max - min + 1));
+    const randomElement = <T>(list: T[]): T =>
+        list[randomInt(0, list.length - 1)];
+    const firstName = (): string => randomElement(FIRST_NAMES);
+    const lastName = (): string => randomElement(LAST_NAMES);
+    const hex = (length: number): string =>
+        new Array(length)
+            .fill(0)
+            .map(() => randomInt(0, 15).toString(16))
+            .join('');
+
+    return {
+        /* a random UUID (version 4) */
+        uuid(): string {
+            const variant = randomElement(['8', '9', 'a', 'b']);
+            return `${hex(8)}-${hex(4)}-4${hex(3)}-${variant}${hex(3)}-${hex(
+                12,
+            )}`;
+        },
+        /* a random integer between both bounds (inclusive) */
+        randomInt,
+        randomString(length = 10, alphabet = ALPHANUMERICS): string {
+            return new Array(length)
+                .fill(0)
+                .map(() => alphabet[randomInt(0, alphabet.length - 1)])
+                .join('');
+        },
+        randomElement,
+        firstName,
+        lastName,
+        fullName(): string {
+            return `${firstName()} ${lastName()}`;
+        },
+        email(domain = 'example.com'): string {
+            return `${firstName()}.${lastName()}${randomInt(1, 999)}@${domain}`
+                .toLowerCase()
+                .replace(/ü/g, 'ue');
+        },
+        address(): { [field: string]: string } {
+            return {
+                street: randomElement(STREETS),
+                houseNumber: String(randomInt(1, 200)),
+                zipCode: String(randomInt(10000, 99999)),
+                city: randomElement(CITIES),
+                country: 'Germany',
+            };
+        },
+        /* the ISO date, by default now, plus the amount (negative for minus) of the unit, e.g. `days` */
+        datePlus(
+            amount: number,
+            unit: string,
+            date?: string | number | Date,
+        ): string {
+            const result = dateOf(date);
+            if (unit === 'months' || unit === 'years') {
+                result.setUTCMonth(
+                    result.getUTCMonth() + amount * (unit === 'years' ? 12 : 1),
+                );
+            } else if (UNITS_IN_MS[unit] !== undefined) {
+                result.setTime(result.getTime() + amount * UNITS_IN_MS[unit]);
+            } else {
+                throw new Error(`Unknown unit of time: ${unit}`);
+            }
+            return result.toISOString();
+        },
+        /* the seconds since the epoch, by default of now */
+        unixTimestamp(date?: string | number | Date): number {
+            return Math.floor(dateOf(date).getTime() / 1000);
+        },
+        base64Encode(value: string): string {
+            return Buffer.from(value).toString('base64');
+        },
+        base64Decode(value: string): string {
+            return Buffer.from(value, 'base64').toString();
+        },
+        hexEncode(value: string): string {
+            return Buffer.from(value).toString('hex');
+        },
+        hexDecode(value: string): string {
+            return Buffer.from(value, 'hex').toString();
+        },
+        /* the hex digest of the value, e.g. `sha('abc', 'sha1')` */
+        sha(value: string, algorithm = 'sha256'): string {
+            return createHash(algorithm)
+                .update(value)
+                .digest('hex');
+        },
+        hmac(value: string, key: string, algorithm = 'sha256'): string {
+            return createHmac(algorithm, key)
+                .update(value)
+                .digest('hex');
+        },
+        /* an unsigned JWT (`alg: none`) of the claims, e.g. for services not verifying tokens */
+        jwt(claims: object, header: object = {}): string {
+            return `${base64UrlOf({
+                alg: 'none',
+                typ: 'JWT',
+                ...header,
+            })}.${base64UrlOf(claims)}.`;
+        },
+    };
+}
@@ -1,32 +1,36 @@
-import { appendFileSync } from 'fs';
 import {
+    appendToDiagram,
     addMissingAsyncMessage,
     currentTimestamp,
     DiagramConfiguration,
+    DiagramScenario,
     formatPayload,
-    getInputFile,
 } from './diagramDrawing';
+import { RunContext } from '../model/RunContext';
 
 export const addAMQPReceivedMessage = (
-    scenarioId: string,
+    runContext: RunContext,
+    scenario: DiagramScenario,
     exchange: string,
     routingKey: string,
     payload: unknown,
     diagramConfiguration: DiagramConfiguration,
 ): void => {
-    appendFileSync(
-        getInputFile(scenarioId),
+    appendToDiagram(
+        runContext,
+        scenario,
         `AMQP -->o ALT : ${exchange}/${routingKey}\n`,
     );
     const note = `note left #99FF99\n**${currentTimestamp()}**\n${formatPayload(
         payload,
         diagramConfiguration,
     )}\nend note\n`;
-    appendFileSync(getInputFile(scenarioId), note);
+    appendToDiagram(runContext, scenario, note);
 };
 
 export const addMissingAMQPMessage = (
-    scenarioId: string,
+    runContext: RunContext,
+    scenario: DiagramScenario,
     exchange: string,
     routingKey: string,
     expectedMessages: number,
@@ -34,7 +38,8 @@ export const addMissingAMQPMessage = (
     errorMsg: string,
 ): void => {
     addMissingAsyncMessage(
-        scenarioId,
+        runContext,
+        scenario,
         `${exchange}/${routingKey}`,
         'AMQP',
         expectedMessages,
@@ -1,7 +1,7 @@
 import { appendFileSync, createWriteStream, writeFileSync } from 'fs';
 import { generate } from 'node-plantuml';
-import { OUTPUT_DIR } from '../index';
 import { isArrayOfStrings, objectFromEntries, trim } from '../util';
+import { RunContext } from '../model/RunContext';
 
 export interface DiagramConfiguration {
     readonly hiddenFields?: string[];
@@ -25,8 +25,8 @@ export function isValidDiagramConfiguration(
     );
 }
 
-function getOutputFile(scenario: string): string {
-    return `${OUTPUT_DIR()}/_${scenario}.png`;
+function getOutputFile(runContext: RunContext, scenario: string): string {
+    return `${runContext.outDir}/_${scenario}.png`;
 }
 
 const hidingText = '***';
@@ -98,12 +98,87 @@ export function formatPayload(
     return formatObjectPayload(payload, diagramConfiguration);
 }
 
+/**
+ * Formats a payload completely, i.e. without trimming plaintext, e.g. to be
+ * shown in the HTML report. Fields and plaintext are hidden like in the
+ * diagram.
+ */
+export function formatPayloadForReport(
+    payload: unknown,
+    diagramConfiguration: DiagramConfiguration,
+): string {
+    if (Buffer.isBuffer(payload)) {
+        return formatBinaryPayload(payload);
+    }
+    if (typeof payload === 'string') {
+        return hidePlaintextIfNeeded(
+            payload,
+            diagramConfiguration.hidePlaintext,
+        );
+    }
+    if (payload === undefined) {
+        return '-';
+    }
+    return JSON.stringify(
+        hideFieldsIfNeeded(payload, diagramConfiguration.hiddenFields),
+        null,
+        2,
+    );
+}
+
 export function currentTimestamp(): string {
     return new Date().toISOString();
 }
 
-export function getInputFile(scenario: string): string {
-    return `${OUTPUT_DIR()}/_${scenario}.input`;
+export function getInputFile(runContext: RunContext, scenario: string): string {
+    return `${runContext.outDir}/_${scenario}.input`;
+}
+
+/* the diagram entries drawn by an attempt of a polled action, see `captureDiagram` */
+interface DiagramCapture {
+    text: string;
+}
+
+/* the scenario the diagram entries are drawn for */
+export interface DiagramScenario {
+    readonly name: string;
+    /* set while the entries are captured instead of drawn, see `captureDiagram` */
+    readonly diagramCapture?: DiagramCapture;
+}
+
+/* appends to the diagram of the scenario unless the entry is captured, see `captureDiagram` */
+export function appendToDiagram(
+    runContext: RunContext,
+    scenario: DiagramScenario,
+    text: string,
+): void {
+    const capture = scenario.diagramCapture;
+    if (capture !== undefined) {
+        capture.text += text;
+    } else {
+        appendFileSync(getInputFile(runContext, scenario.name), text);
+    }
+}
+
+/**
+ * Invokes the callback with a scenario capturing the diagram entries drawn
+ * for it instead of drawing them, the entries drawn for the given scenario
+ * (e.g. by other actions running in parallel) are drawn as usual.
+ * @param scenario The scenario the entries are drawn for
+ * @param callback Invokes the action, e.g. `s => action.invoke(s, runContext)`
+ * @returns The result of the callback and the captured entries, which are
+ * complete once the result is settled
+ */
+export function captureDiagram<S extends DiagramScenario, T>(
+    scenario: S,
+    callback: (capturingScenario: S) => T,
+): { result: T; capture: DiagramCapture } {
+    const capture: DiagramCapture = { text: '' };
+    // the capturing scenario shares everything with the scenario but the capture
+    const capturingScenario: S = Object.create(scenario, {
+        diagramCapture: { value: capture },
+    });
+    return { result: callback(capturingScenario), capture };
 }
 
 export function quote(str: string): string {
@@ -114,8 +189,11 @@ export function removeLineBreaks(str: string): string {
     return str.replace(/(\r\n|\n|\r)/gm, '');
 }
 
-export const initDiagramCreation = (scenarioId: string): void => {
-    writeFileSync(getInputFile(scenarioId), '');
+export const initDiagramCreation = (
+    runContext: RunContext,
+    scenarioId: string,
+): void => {
+    writeFileSync(getInputFile(runContext, scenarioId), '');
     const initValues = [
         '@startuml',
         'autonumber',
@@ -124,18 +202,20 @@ export const initDiagramCreation = (scenarioId: string): void => {
         'control AMQP',
         'actor ALT #red\n',
     ];
-    appendFileSync(getInputFile(scenarioId), initValues.join('\n'));
+    appendFileSync(getInputFile(runContext, scenarioId), initValues.join('\n'));
 };
 
-export const addDelay = (scenarioId: string, durationInSec: number): void => {
-    appendFileSync(
-        getInputFile(scenarioId),
-        `\n...sleep ${durationInSec} s...\n`,
-    );
+export const addDelay = (
+    runContext: RunContext,
+    scenario: DiagramScenario,
+    durationInSec: number,
+): void => {
+    appendToDiagram(runContext, scenario, `\n...sleep ${durationInSec} s...\n`);
 };
 
 export const addMissingAsyncMessage = (
-    scenarioId: string,
+    runContext: RunContext,
+    scenario: DiagramScenario,
     asyncInfo: string,
     source: string,
     expectedMessages: number,
@@ -143,8 +223,9 @@ export const addMissingAsyncMessage = (
     errorMsg: string,
 ): void => {
     const quotedSource = quote(source);
-    appendFileSync(
-        getInputFile(scenarioId),
+    appendToDiagram(
+        runContext,
+        scenario,
         `${quotedSource} -[#red]->x ALT : ${asyncInfo}\n
         `,
     );
@@ -152,17 +233,70 @@ export const addMissingAsyncMessage = (
     const note = `note right #FF0000\n**${currentTimestamp()}**\n\n
 ${errorMsg}\n\n
 Expected Messages:${expectedMessages}\nReceived Messages: ${receivedMessages}\nend note\n`;
-    appendFileSync(getInputFile(scenarioId), note);
+    appendToDiagram(runContext, scenario, note);
+};
+
+export const addDivider = (
+    runContext: RunContext,
+    scenario: DiagramScenario,
+    label: string,
+): void => {
+    appendToDiagram(
+        runContext,
+        scenario,
+        `\n== ${removeLineBreaks(label)} ==\n`,
+    );
+};
+
+export const addSkippedAction = (
+    runContext: RunContext,
+    scenario: DiagramScenario,
+    actionDescription: string,
+    reason: string,
+): void => {
+    appendToDiagram(
+        runContext,
+        scenario,
+        `\nnote over ALT #LightGrey\n**${currentTimestamp()}**\n\nSkipped: ${actionDescription}\n${reason}\nend note\n`,
+    );
+};
+
+/* a polled action is drawn as a single group containing the entries of its last attempt only */
+export const addPolledAction = (
+    runContext: RunContext,
+    scenario: DiagramScenario,
+    actionDescription: string,
+    lastAttempt: string,
+    attempts: number,
+    passed: boolean,
+): void => {
+    appendToDiagram(
+        runContext,
+        scenario,
+        `\ngroup until passed: ${removeLineBreaks(
+            actionDescription,
+        )} (${attempts} attempt(s))\n${lastAttempt}\nend\nnote over ALT #${
+            passed ? 'LightGreen' : 'FF0000'
+        }\n**${currentTimestamp()}**\n\n${
+            passed ? 'Passed' : 'Failed'
+        } after ${attempts} attempt(s)\nend note\n`,
+    );
 };
 
 const generateFile = (inputFile: string, outputFile: string): Promise<void> =>
     new Promise<void>(resolve => {
         const gen = generate(inputFile);
-        gen.out.pipe(createWriteStream(outputFile));
-        gen.out.on('end', resolve);
+        // resolve once the file is completely written, so it can be read right away
+        gen.out.pipe(createWriteStream(outputFile)).on('finish', resolve);
     });
 
-export const generateSequenceDiagram = (scenarioId: string): Promise<void> => {
-    appendFileSync(getInputFile(scenarioId), '\n@enduml');
-    return generateFile(getInputFile(scenarioId), getOutputFile(scenarioId));
+export const generateSequenceDiagram = (
+    runContext: RunContext,
+    scenarioId: string,
+): Promise<void> => {
+    appendFileSync(getInputFile(runContext, scenarioId), '\n@enduml');
+    return generateFile(
+        getInputFile(runContext, scenarioId),
+        getOutputFile(runContext, scenarioId),
+    );
 };
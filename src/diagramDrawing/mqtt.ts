@@ -1,50 +1,54 @@
-import { appendFileSync } from 'fs';
 import {
+    appendToDiagram,
     DiagramConfiguration,
+    DiagramScenario,
     formatPayload,
-    getInputFile,
     currentTimestamp,
     addMissingAsyncMessage,
 } from './diagramDrawing';
-import { OUTPUT_DIR } from '../index';
+import { RunContext } from '../model/RunContext';
 
 export const addMqttPublishMessage = (
-    scenarioId: string,
+    runContext: RunContext,
+    scenario: DiagramScenario,
     topic: string,
     payload: any,
     diagramConfiguration: DiagramConfiguration,
 ): void => {
-    appendFileSync(getInputFile(scenarioId), `ALT ->o MQTT : ${topic}\n`);
+    appendToDiagram(runContext, scenario, `ALT ->o MQTT : ${topic}\n`);
     const note = `note left #99FF99\n**${currentTimestamp()}**\n${formatPayload(
         JSON.parse(payload),
         diagramConfiguration,
     )}\nend note\n`;
-    appendFileSync(getInputFile(scenarioId), note);
+    appendToDiagram(runContext, scenario, note);
 };
 
 export const addMqttMessage = (
-    scenarioId: string,
+    runContext: RunContext,
+    scenario: DiagramScenario,
     topic: string,
     payload: unknown,
     diagramConfiguration: DiagramConfiguration,
 ): void => {
-    appendFileSync(getInputFile(scenarioId), `MQTT -->o ALT : ${topic}\n`);
+    appendToDiagram(runContext, scenario, `MQTT -->o ALT : ${topic}\n`);
     const note = `note right #99FF99\n**${currentTimestamp()}**\n${formatPayload(
         payload,
         diagramConfiguration,
     )}\nend note\n`;
-    appendFileSync(getInputFile(scenarioId), note);
+    appendToDiagram(runContext, scenario, note);
 };
 
 export const addMissingMQTTMessage = (
-    scenarioId: string,
+    runContext: RunContext,
+    scenario: DiagramScenario,
     topic: string,
     expectedMessages: number,
     receivedMessages: number,
     errorMsg: string,
 ): void => {
     addMissingAsyncMessage(
-        scenarioId,
+        runContext,
+        scenario,
         topic,
         'MQTT',
         expectedMessages,
@@ -1,16 +1,24 @@
-import { appendFileSync } from 'fs';
 import {
+    appendToDiagram,
     currentTimestamp,
     DiagramConfiguration,
+    DiagramScenario,
     formatPayload,
-    getInputFile,
     quote,
 } from './diagramDrawing';
+import { DiffLine, DIFF_LEGEND } from '../jsonDiff';
+import { RunContext } from '../model/RunContext';
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const wrap = require('word-wrap');
 
+const DIFF_PREFIXES = { expected: '+ ', actual: '- ', both: '  ' };
+
+/* green and red are barely readable on the red background of a failure note */
+const DIFF_COLORS = { expected: 'lightgreen', actual: 'yellow' };
+
 export const addRequest = (
-    scenarioId: string,
+    runContext: RunContext,
+    scenario: DiagramScenario,
     target: string,
     url: string,
     data: unknown,
@@ -26,24 +34,31 @@ export const addRequest = (
             : ''
     }`;
 
-    appendFileSync(getInputFile(scenarioId), request);
+    appendToDiagram(runContext, scenario, request);
 };
 
 export const addSuccessfulResponse = (
-    scenarioId: string,
+    runContext: RunContext,
+    scenario: DiagramScenario,
     source: string,
     status: string,
     body: unknown,
     diagramConfiguration: DiagramConfiguration,
 ): void => {
-    addSuccessfulResponseArrow(scenarioId, source, status);
+    addSuccessfulResponseArrow(runContext, scenario, source, status);
     if (body) {
-        addSuccessfulResponseBody(scenarioId, body, diagramConfiguration);
+        addSuccessfulResponseBody(
+            runContext,
+            scenario,
+            body,
+            diagramConfiguration,
+        );
     }
 };
 
 export const addSuccessfulResponseBody = (
-    scenarioId: string,
+    runContext: RunContext,
+    scenario: DiagramScenario,
     body: unknown,
     diagramConfiguration: DiagramConfiguration,
 ): void => {
@@ -51,19 +66,21 @@ export const addSuccessfulResponseBody = (
         body,
         diagramConfiguration,
     )}\nend note\n`;
-    appendFileSync(getInputFile(scenarioId), note);
+    appendToDiagram(runContext, scenario, note);
 };
 
 export const addFailedResponse = (
-    scenarioId: string,
+    runContext: RunContext,
+    scenario: DiagramScenario,
     source: string,
     status: string,
     body: string,
     diagramConfiguration: DiagramConfiguration,
 ): void => {
-    addFailedResponseArrow(scenarioId, source, status);
-    appendFileSync(
-        getInputFile(scenarioId),
+    addFailedResponseArrow(runContext, scenario, source, status);
+    appendToDiagram(
+        runContext,
+        scenario,
         `note right\n<color red>${formatPayload(
             body,
             diagramConfiguration,
@@ -72,44 +89,63 @@ export const addFailedResponse = (
 };
 
 const addResponseArrow = (
-    scenarioId: string,
+    runContext: RunContext,
+    scenario: DiagramScenario,
     source: string,
     status: string,
     color: string,
 ): void => {
     const quotedSource = quote(source);
-    appendFileSync(
-        getInputFile(scenarioId),
+    appendToDiagram(
+        runContext,
+        scenario,
         `${quotedSource} --> ALT: <color ${color}>${status}</color>\ndeactivate ${quotedSource}\n`,
     );
 };
 
 export const addSuccessfulResponseArrow = (
-    scenarioId: string,
+    runContext: RunContext,
+    scenario: DiagramScenario,
     source: string,
     status: string,
-): void => addResponseArrow(scenarioId, source, status, 'green');
+): void => addResponseArrow(runContext, scenario, source, status, 'green');
 
 const addFailedResponseArrow = (
-    scenarioId: string,
+    runContext: RunContext,
+    scenario: DiagramScenario,
     source: string,
     status: string,
-): void => addResponseArrow(scenarioId, source, status, 'red');
+): void => addResponseArrow(runContext, scenario, source, status, 'red');
 
 export const addValidationFailureResponseBody = (
-    scenarioId: string,
-    validationError: { errorMsg: string; responseBody: unknown },
+    runContext: RunContext,
+    scenario: DiagramScenario,
+    validationError: {
+        errorMsg: string;
+        diff?: DiffLine[];
+        responseBody: unknown;
+    },
     diagramConfiguration: DiagramConfiguration,
 ): void => {
     const formattedErrorMsg = `<size:16><color yellow>${wrap(
         validationError.errorMsg,
         { newline: '</color></size>\n<size:16><color yellow>', indent: '' },
     )}</color></size>`;
+    const formattedDiff = validationError.diff
+        ? `\n\n<color:white>${DIFF_LEGEND}</color>\n${validationError.diff
+              .map(({ kind, text }) => {
+                  const line = `${DIFF_PREFIXES[kind]}${text}`;
+                  return kind === 'both'
+                      ? line
+                      : `<color:${DIFF_COLORS[kind]}>${line}</color>`;
+              })
+              .join('\n')}`
+        : '';
 
-    const note = `note left #FF0000\n**${currentTimestamp()}**\n${formattedErrorMsg}\n\nIncoming Response was:\n\n
+    const note = `note left #FF0000\n**${currentTimestamp()}**\n${formattedErrorMsg}${formattedDiff}\n\nIncoming Response was:\n\n
 ${formatPayload(
     validationError.responseBody,
     diagramConfiguration,
 )}\nend note\n`;
-    appendFileSync(getInputFile(scenarioId), note);
+    appendToDiagram(runContext, scenario, note);
 };
@@ -1,26 +1,29 @@
-import { appendFileSync } from 'fs';
 import {
+    appendToDiagram,
     currentTimestamp,
     DiagramConfiguration,
+    DiagramScenario,
     formatPayload,
-    getInputFile,
     quote,
 } from './diagramDrawing';
+import { RunContext } from '../model/RunContext';
 
 export const addWsMessage = (
-    scenarioId: string,
+    runContext: RunContext,
+    scenario: DiagramScenario,
     source: string,
     payload: unknown,
     diagramConfiguration: DiagramConfiguration,
 ): void => {
     const quotedSource = quote(source);
-    appendFileSync(
-        getInputFile(scenarioId),
+    appendToDiagram(
+        runContext,
+        scenario,
         `${quotedSource} -[#0000FF]->o ALT : [WS]\n`,
     );
     const note = `note left #99FF99\n**${currentTimestamp()}**\n${formatPayload(
         payload,
         diagramConfiguration,
     )}\nend note\n`;
-    appendFileSync(getInputFile(scenarioId), note);
+    appendToDiagram(runContext, scenario, note);
 };
@@ -0,0 +1,153 @@
+import { Script, createContext } from 'vm';
+import { dataHelpersOf, randomSourceOf } from './dataGeneration';
+
+/* the maximum duration of a single evaluation, e.g. to stop an endless loop of a validation */
+export const EXPRESSION_TIMEOUT_IN_MS = 1000;
+
+/**
+ * The values an expression can access besides the helpers and `vars`, only
+ * the ones of the evaluated context are bound:
+ * - `res`: the (parsed) body of a REST response
+ * - `head`: the headers of a REST response
+ * - `msg`: the (parsed) message received by a listener
+ * - `previous`: the outcome of the previous action in a step condition
+ */
+export interface ExpressionBindings {
+    readonly res?: unknown;
+    readonly head?: unknown;
+    readonly msg?: unknown;
+    readonly previous?: unknown;
+    readonly [name: string]: unknown;
+}
+
+/* an expression compiled once, which can be evaluated with other bindings each time */
+export type CompiledExpression = (bindings?: ExpressionBindings) => unknown;
+
+/* the helpers available as globals (and via `this`) in every expression */
+function helpersOf(vars: Map<string, unknown>): { [name: string]: unknown } {
+    // the variables being incremented are expected to hold numbers
+    const counterOf = (name: string): number => vars.get(name) as number;
+    return {
+        get(name: string): unknown {
+            return vars.get(name);
+        },
+        set(name: string, value: unknown): Map<string, unknown> {
+            return vars.set(name, value);
+        },
+        getAndInc(name: string): number {
+            const currentValue = counterOf(name);
+            vars.set(name, currentValue + 1);
+            return currentValue;
+        },
+        getAndIncBy(name: string, howMuch: number): number {
+            const currentValue = counterOf(name);
+            vars.set(name, currentValue + howMuch);
+            return currentValue;
+        },
+        incAndGet(name: string): number {
+            const targetValue = counterOf(name) + 1;
+            vars.set(name, targetValue);
+            return targetValue;
+        },
+        incByAndGet(name: string, howMuch: number): number {
+            const targetValue = counterOf(name) + howMuch;
+            vars.set(name, targetValue);
+            return targetValue;
+        },
+        datePlusMinutesIso(minutes: number): string {
+            return new Date(Date.now() + minutes * 60e3).toISOString();
+        },
+        timestampPlusMinutes(minutes: number): number {
+            return Date.now() + minutes * 60e3;
+        },
+        ...dataHelpersOf(randomSourceOf(vars)),
+    };
+}
+
+/* the scenario variables as an object, e.g. `vars.userId`, reading and writing the map */
+function variablesObjectOf(vars: Map<string, unknown>): object {
+    return new Proxy(
+        {},
+        {
+            get: (target, name) => vars.get(name.toString()),
+            set: (target, name, value) => {
+                vars.set(name.toString(), value);
+                return true;
+            },
+            has: (target, name) => vars.has(name.toString()),
+            deleteProperty: (target, name) => vars.delete(name.toString()),
+            ownKeys: () => Array.from(vars.keys()),
+            getOwnPropertyDescriptor: (target, name) =>
+                vars.has(name.toString())
+                    ? {
+                          value: vars.get(name.toString()),
+                          writable: true,
+                          enumerable: true,
+                          configurable: true,
+                      }
+                    : undefined,
+        },
+    );
+}
+
+/**
+ * Evaluates an expression of a scenario or action in a separate context,
+ * which is the single way expressions are evaluated, e.g. validations, message
+ * filters, variables and conditions. The expression neither sees the modules
+ * of the framework nor Node's globals like `require` or `process`, but only
+ * the built-in objects of JavaScript, `Buffer` (e.g. to validate a binary
+ * response), the given bindings, the scenario variables as `vars` and the
+ * helpers (`get`, `set`, `getAndInc`, `getAndIncBy`, `incAndGet`,
+ * `incByAndGet`, `datePlusMinutesIso`, `timestampPlusMinutes` and the ones
+ * generating test data, see `dataHelpersOf`), which are also accessible via
+ * `this`.
+ * Note that the context is no security boundary for malicious expressions.
+ * @param expression The (JavaScript) expression, the value of its last
+ * statement is returned
+ * @param vars The variables of the scenario
+ * @param bindings The values of the evaluated context, e.g. `res`
+ * @param timeoutInMs The maximum duration of the evaluation, `Infinity` for
+ * none (e.g. for the scripts of NODE_JS actions)
+ * @throws Error if the expression is invalid, throws or times out
+ */
+export function evaluateExpression(
+    expression: string,
+    vars: Map<string, unknown>,
+    bindings: ExpressionBindings = {},
+    timeoutInMs = EXPRESSION_TIMEOUT_IN_MS,
+): unknown {
+    return compileExpression(expression, vars, timeoutInMs)(bindings);
+}
+
+/**
+ * Compiles an expression into a single context like `evaluateExpression`,
+ * e.g. to evaluate it for many values without creating a context for each of
+ * them. Every evaluation replaces the bindings of the previous one, but
+ * globals declared by the expression itself are kept.
+ * @throws SyntaxError if the expression is invalid
+ */
+export function compileExpression(
+    expression: string,
+    vars: Map<string, unknown>,
+    timeoutInMs = EXPRESSION_TIMEOUT_IN_MS,
+): CompiledExpression {
+    const script = new Script(expression);
+    const globals: { [name: string]: unknown } = {
+        Buffer,
+        ...helpersOf(vars),
+        vars: variablesObjectOf(vars),
+    };
+    const context: { [name: string]: unknown } = createContext({ ...globals });
+    let boundNames: string[] = [];
+    return (bindings = {}) => {
+        boundNames.forEach(name => {
+            if (name in globals) context[name] = globals[name];
+            else delete context[name];
+        });
+        Object.assign(context, bindings);
+        boundNames = Object.keys(bindings);
+        return script.runInContext(context, {
+            timeout: Number.isFinite(timeoutInMs) ? timeoutInMs : undefined,
+        });
+    };
+}
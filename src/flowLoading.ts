@@ -0,0 +1,55 @@
+import { readdirSync } from 'fs';
+import { Action } from './model/Action';
+import { Flow } from './model/Flow';
+import { RunContext } from './model/RunContext';
+import { Scenario } from './model/Scenario';
+import { SchemaValidationError } from './model/error/SchemaValidationError';
+import { validateFlowDefinition } from './scenarioLoading';
+import { loadYamlConfiguration, nameFromYamlConfig } from './yamlParsing';
+
+/**
+ * Loads all flows from the YAML files of the directory, each of them named
+ * after its file.
+ * @param flowDir The directory containing the flows
+ * @param actionCatalog The action templates referenced by the flows
+ * @param runContext The context of the run
+ * @throws SchemaValidationError listing the violations of all files if at
+ * least one flow does not match the schema
+ */
+export const loadAllFlows = (
+    flowDir: string,
+    actionCatalog: Action[],
+    runContext?: RunContext,
+): Flow[] => {
+    const flowFiles = readdirSync(flowDir)
+        .map(file => ({
+            name: nameFromYamlConfig(file),
+            file: `${flowDir}/${file}`,
+            definition: loadYamlConfiguration(`${flowDir}/${file}`, runContext),
+        }))
+        .filter(({ definition }) => definition);
+
+    const schemaErrors = ([] as string[]).concat(
+        ...flowFiles.map(({ definition, file }) =>
+            validateFlowDefinition(definition, file, actionCatalog),
+        ),
+    );
+    if (schemaErrors.length > 0) {
+        throw new SchemaValidationError(schemaErrors);
+    }
+
+    return flowFiles.map(({ name, definition }) => ({
+        name,
+        description: definition.description,
+        parameters: definition.parameters ?? {},
+        outputs: definition.outputs ?? [],
+        // the steps are created like the ones of a scenario without imports
+        actions: new Scenario(
+            name,
+            { actions: definition.actions },
+            actionCatalog,
+            [],
+            runContext,
+        ).actions,
+    }));
+};
@@ -1,22 +1,113 @@
 import * as pad from 'pad';
 import { stringify } from 'querystring';
 import { loadAllActions } from './actionLoading';
+import { loadAllFlows } from './flowLoading';
 import {
+    addDivider,
+    addSkippedAction,
     generateSequenceDiagram,
     initDiagramCreation,
 } from './diagramDrawing/diagramDrawing';
 import { getLogger } from './logging';
 import { Action } from './model/Action';
-import { ActionType } from './model/ActionType';
+import { actionTypeName } from './model/ActionType';
 import { Scenario } from './model/Scenario';
 import { TestResult } from './model/TestResult';
-import { loadAllScenarios, loadScenariosById } from './scenarioLoading';
+import { RunContext } from './model/RunContext';
+import {
+    ActionStatus,
+    RunReport,
+    ScenarioReport,
+    toActionReport,
+    toScenarioReport,
+} from './model/RunReport';
+import {
+    filterScenariosByTags,
+    loadAllScenarios,
+    loadScenariosById,
+} from './scenarioLoading';
 import { loadYamlConfiguration } from './yamlParsing';
 import { ActionCallback } from './model/ActionCallback';
+import { writeJUnitReport } from './reporting/junitReport';
+import { writeHtmlReport } from './reporting/htmlReport';
+import { runInWorkerPool, WorkerPoolOptions } from './workerPool';
+import { cancellable, withTimeout } from './timeout';
+import { TimeoutError } from './model/error/TimeoutError';
+import { AbortError } from './model/error/AbortError';
+import {
+    ActionHooks,
+    RunEventEmitter,
+    RunEventName,
+    RunEvents,
+} from './model/RunEvents';
+import { findActionType } from './actionTypeRegistry';
+import { PreviousOutcome, StepCondition } from './model/StepCondition';
+import { Iteration, StepLoop } from './model/StepLoop';
+import { StepOptions } from './model/StepOptions';
+import { RaceLostError } from './model/error/RaceLostError';
+import { AssertionFailedError } from './model/error/AssertionFailedError';
+import { colorDiff, formatDiff } from './jsonDiff';
+import {
+    evaluateCondition,
+    injectEvalAndVarsToString,
+} from './variableInjection';
 
-const RESULTS: Map<string, TestResult[]> = new Map();
-
-let OUT_DIR = '';
+export {
+    ActionTypeDefinition,
+    registerActionType,
+    unregisterActionType,
+} from './actionTypeRegistry';
+export { Action, ActionDefinition } from './model/Action';
+export { ActionCallback } from './model/ActionCallback';
+export {
+    ActionHooks,
+    RunEventEmitter,
+    RunEventName,
+    RunEvents,
+} from './model/RunEvents';
+export { Scenario } from './model/Scenario';
+export { Flow } from './model/Flow';
+export {
+    AMQP_LISTEN_ACTION_SCHEMA,
+    JsonSchema,
+    MQTT_ACTION_SCHEMA,
+    MQTT_PUBLISH_ACTION_SCHEMA,
+    NODE_JS_ACTION_SCHEMA,
+    REST_ACTION_SCHEMA,
+    TIMER_ACTION_SCHEMA,
+    WEBSOCKET_ACTION_SCHEMA,
+} from './schemas/actionSchemas';
+export {
+    AWAIT_STEP_SCHEMA,
+    FLOW_SCHEMA,
+    FLOW_STEP_SCHEMA,
+    PARALLEL_BLOCK_SCHEMA,
+    SCENARIO_SCHEMA,
+    STEP_SCHEMA,
+} from './schemas/scenarioSchema';
+export { SchemaValidationError } from './model/error/SchemaValidationError';
+export { ImportCycleError } from './model/error/ImportCycleError';
+export { AssertionFailedError } from './model/error/AssertionFailedError';
+export { JsonPathError } from './model/error/JsonPathError';
+export {
+    Assertion,
+    JsonPathAssertion,
+    JsonPathExtractor,
+    ValidationDefinition,
+    ValueType,
+    VariableDefinition,
+} from './model/Assertion';
+export { DiffLine, diffJson, formatDiff } from './jsonDiff';
+export { SuiteValidationReport, validateSuite } from './suiteValidation';
+export { RunContext } from './model/RunContext';
+export { getLogger } from './logging';
+export { ExpressionBindings, evaluateExpression } from './expressionEvaluation';
+export {
+    ActionReport,
+    ActionStatus,
+    RunReport,
+    ScenarioReport,
+} from './model/RunReport';
 
 // increase the pixel-size (width/height) limit of PlantUML (the default is 4096 which is not enough for some diagrams)
 process.env.PLANTUML_LIMIT_SIZE = '16384';
@@ -25,6 +116,24 @@ interface RunConfiguration {
     numberOfScenariosRunInParallel?: number;
     environmentNameToBeUsed?: string;
     drawDiagrams?: boolean;
+    writeJUnitReport?: boolean;
+    /* writes a self-contained `report.html` including payloads and diagrams */
+    writeHtmlReport?: boolean;
+    maxScenarioStartsPerSecond?: number;
+    /* tag expression like `smoke && !slow` the scenarios to be run must match */
+    includeTags?: string;
+    /* tag expression matching the scenarios which must not be run */
+    excludeTags?: string;
+    /* emits the lifecycle events of the run, e.g. to push live progress */
+    events?: RunEventEmitter;
+    /* functions invoked before and after every action */
+    hooks?: ActionHooks;
+    /* directory of scenarios which can be imported, but are not run themselves */
+    importDir?: string;
+    /* directory of flows which can be invoked by the scenarios with arguments */
+    flowDir?: string;
+    /* makes the random values of the helpers (e.g. `uuid()`) the same in every run with this seed */
+    seed?: number | string;
 }
 
 /**
@@ -58,8 +167,8 @@ export const runMultipleScenariosWithConfig = (
         envConfigDir,
         runConfig,
         scenarioPaths,
-    ).then(result => {
-        if (!result) process.exit(1);
+    ).then(report => {
+        if (!report.successful) process.exit(1);
     });
 };
 
@@ -69,79 +178,148 @@ export const runMultipleScenariosWithConfigAsync = async (
     envConfigDir: string,
     runConfig: RunConfiguration,
     scenarioPaths: string[],
-): Promise<boolean> => {
-    // TODO: global variables should be avoided
-    RESULTS.clear();
+): Promise<RunReport> => {
+    const runContext = new RunContext(
+        outDir,
+        runConfig.events,
+        runConfig.hooks,
+        runConfig.seed,
+    );
     const {
         numberOfScenariosRunInParallel = 10,
         environmentNameToBeUsed = 'none',
         drawDiagrams = true,
+        writeJUnitReport: junitReportEnabled = false,
+        writeHtmlReport: htmlReportEnabled = false,
+        maxScenarioStartsPerSecond,
+        includeTags,
+        excludeTags,
+        importDir,
+        flowDir,
     } = runConfig;
 
+    let report: RunReport;
     try {
         if (
             typeof scenarioPaths === 'undefined' ||
             scenarioPaths.length === 0
         ) {
-            getLogger().error(
+            throw new Error(
                 'Please provide correct path(s) to the SCENARIO file!',
             );
-            process.exit(1);
         }
         if (typeof actionDir === 'undefined' || actionDir === '') {
-            getLogger().error(
-                'Please provide correct path to the ACTION files!',
-            );
-            process.exit(1);
+            throw new Error('Please provide correct path to the ACTION files!');
         }
 
-        getLogger('setup').info(
-            `RUNNING: scenario(s): ${scenarioPaths} (actions: ${actionDir}, out: ${outDir}, envDir: ${envConfigDir}, numberOfScenariosRunInParallel: ${numberOfScenariosRunInParallel}, environmentNameToBeUsed: ${environmentNameToBeUsed})`,
+        getLogger('setup', runContext).info(
+            `RUNNING: scenario(s): ${scenarioPaths} (actions: ${actionDir}, out: ${outDir}, envDir: ${envConfigDir}, importDir: ${importDir}, flowDir: ${flowDir}, numberOfScenariosRunInParallel: ${numberOfScenariosRunInParallel}, maxScenarioStartsPerSecond: ${maxScenarioStartsPerSecond}, includeTags: ${includeTags}, excludeTags: ${excludeTags}, environmentNameToBeUsed: ${environmentNameToBeUsed}, seed: ${runConfig.seed})`,
         );
 
-        OUT_DIR = outDir;
-
         const envConfig = envConfigDir
             ? loadYamlConfiguration(
                   `${envConfigDir}/${environmentNameToBeUsed}.yaml`,
+                  runContext,
               )
             : {};
-        getLogger('setup').debug(
+        getLogger('setup', runContext).debug(
             `Using '${environmentNameToBeUsed}' configuration: ${stringify(
                 envConfig,
             )}`,
         );
 
-        const actions: Action[] = loadAllActions(actionDir, envConfig);
-        getLogger('setup').debug(
+        const actions: Action[] = loadAllActions(
+            actionDir,
+            envConfig,
+            runContext,
+        );
+        getLogger('setup', runContext).debug(
             `Successfully loaded ${actions.length} actions`,
         );
+        const flows = flowDir ? loadAllFlows(flowDir, actions, runContext) : [];
+        getLogger('setup', runContext).debug(
+            `Successfully loaded ${flows.length} flows`,
+        );
 
-        const resultPromises: Promise<boolean>[] = [];
+        const loadedScenarios: Scenario[] = [];
         scenarioPaths.forEach(scenarioPath => {
-            getLogger('setup').debug(`Loading: ${scenarioPath} ...`);
-            const scenarios: Scenario[] = scenarioPath.endsWith('yaml')
-                ? loadScenariosById(scenarioPath, actions)
-                : loadAllScenarios(scenarioPath, actions);
-            getLogger('setup').debug(
-                `Successfully loaded ${scenarios.length} scenario(s): ${scenarioPath}`,
+            getLogger('setup', runContext).debug(
+                `Loading: ${scenarioPath} ...`,
             );
-
-            resultPromises.push(
-                processScenarios(
-                    scenarios,
-                    numberOfScenariosRunInParallel,
-                    drawDiagrams,
-                ),
+            const scenariosOfPath: Scenario[] = scenarioPath.endsWith('yaml')
+                ? loadScenariosById(
+                      scenarioPath,
+                      actions,
+                      runContext,
+                      importDir,
+                      flows,
+                  )
+                : loadAllScenarios(
+                      scenarioPath,
+                      actions,
+                      runContext,
+                      importDir,
+                      flows,
+                  );
+            getLogger('setup', runContext).debug(
+                `Successfully loaded ${scenariosOfPath.length} scenario(s): ${scenarioPath}`,
             );
+            loadedScenarios.push(...scenariosOfPath);
+        });
+        const {
+            selected: scenarios,
+            filteredOut: filteredOutScenarios,
+        } = filterScenariosByTags(loadedScenarios, {
+            includeTags,
+            excludeTags,
         });
 
-        const results = await Promise.all(resultPromises);
-        return results.every(result => result);
+        emitEvent(runContext, 'runStart', {
+            scenarios: scenarios.map(s => s.name),
+        });
+        const removeSignalHandlers = abortOnTerminationSignals(runContext);
+        let scenarioReports: ScenarioReport[];
+        try {
+            scenarioReports = await processScenarios(
+                runContext,
+                scenarios,
+                {
+                    concurrency: numberOfScenariosRunInParallel,
+                    startsPerSecond: maxScenarioStartsPerSecond,
+                    isStopped: () => runContext.aborted,
+                },
+                drawDiagrams,
+            );
+        } finally {
+            removeSignalHandlers();
+        }
+        printFilteredOutScenarios(runContext, filteredOutScenarios);
+        report = {
+            successful: scenarioReports.every(s => s.successful),
+            scenarios: scenarioReports,
+            filteredOutScenarios: filteredOutScenarios.map(s => s.name),
+            aborted: runContext.aborted,
+        };
     } catch (e) {
-        getLogger('setup').error(e);
-        return false;
+        getLogger('setup', runContext).error(e);
+        report = {
+            successful: false,
+            scenarios: [],
+            filteredOutScenarios: [],
+            aborted: runContext.aborted,
+            error: errorMessageOf(e),
+        };
+    }
+    if (report.error === undefined) {
+        report = writeReports(
+            runContext,
+            report,
+            junitReportEnabled,
+            htmlReportEnabled,
+        );
     }
+    emitEvent(runContext, 'runEnd', { report });
+    return report;
 };
 
 /**
@@ -167,31 +345,55 @@ export const runScenario = (
 };
 
 async function processScenarios(
+    runContext: RunContext,
     scenarios: Scenario[],
-    numberOfScenariosRunInParallel: number,
+    workerPoolOptions: WorkerPoolOptions,
     drawDiagrams: boolean,
-): Promise<boolean> {
-    for (let i = 0; i < scenarios.length; i += numberOfScenariosRunInParallel) {
-        // eslint-disable-next-line no-await-in-loop
-        await Promise.all(
-            scenarios
-                .slice(i, i + numberOfScenariosRunInParallel)
-                .map(invokeActionsSynchronously),
+): Promise<ScenarioReport[]> {
+    await runInWorkerPool(
+        scenarios,
+        scenario => invokeActionsSynchronously(runContext, scenario),
+        workerPoolOptions,
+    );
+    const startedScenarios = scenarios.filter(scenario =>
+        runContext.results.has(scenario.name),
+    );
+    scenarios
+        .filter(scenario => !startedScenarios.includes(scenario))
+        .forEach(scenario =>
+            runContext.results.set(
+                scenario.name,
+                scenario.actions.map(action =>
+                    abortedResult(action, runContext),
+                ),
+            ),
         );
+
+    printResults(runContext, scenarios);
+    if (drawDiagrams) {
+        await generateDiagrams(runContext, startedScenarios);
     }
-    printResults();
-    return generateDiagramsAndDetermineSuccess(drawDiagrams);
+    return scenarios.map(scenario =>
+        toScenarioReport(
+            scenario.name,
+            scenario.description,
+            runContext.results.get(scenario.name) ?? [],
+        ),
+    );
 }
 
-async function invokeActionsSynchronously(scenario: Scenario): Promise<void> {
+async function invokeActionsSynchronously(
+    runContext: RunContext,
+    scenario: Scenario,
+): Promise<void> {
     const scenarioName = scenario.name;
-    RESULTS.set(scenarioName, []);
+    runContext.results.set(scenarioName, []);
 
     const ctx = { scenario: scenarioName };
     const MSG_WIDTH = 100;
 
-    getLogger(scenarioName).debug(pad(MSG_WIDTH, '#', '#'), ctx);
-    getLogger(scenarioName).debug(
+    getLogger(scenarioName, runContext).debug(pad(MSG_WIDTH, '#', '#'), ctx);
+    getLogger(scenarioName, runContext).debug(
         pad(
             `#### (S): ${scenarioName}: ${scenario.description} `,
             MSG_WIDTH,
@@ -199,163 +401,706 @@ async function invokeActionsSynchronously(scenario: Scenario): Promise<void> {
         ),
         ctx,
     );
-    getLogger(scenarioName).debug(pad(MSG_WIDTH, '#', '#'), ctx);
-    initDiagramCreation(scenarioName);
+    getLogger(scenarioName, runContext).debug(pad(MSG_WIDTH, '#', '#'), ctx);
+    initDiagramCreation(runContext, scenarioName);
+    emitEvent(runContext, 'scenarioStart', {
+        scenario: scenarioName,
+        description: scenario.description,
+    });
 
     const timeDiffInMs = (stop: [number, number]): number =>
         (stop[0] * 1e9 + stop[1]) * 1e-6;
 
     let successful = true;
+    const { timeoutInSec: scenarioTimeoutInSec } = scenario;
+    /* the scenario's timeout and the time it is reached, if it has one */
+    const scenarioDeadline =
+        scenarioTimeoutInSec !== undefined
+            ? {
+                  timeoutInSec: scenarioTimeoutInSec,
+                  atInMs: Date.now() + scenarioTimeoutInSec * 1000,
+              }
+            : undefined;
     const actionsToCancel: ActionCallback[] = [];
     const actionsToAwaitAtEnd: Promise<unknown>[] = [];
 
+    const recordResult = (action: Action, result: TestResult): TestResult => {
+        const scenarioResults = runContext.results.get(scenarioName);
+        if (scenarioResults) scenarioResults.push(result);
+        emitEvent(runContext, 'actionEnd', {
+            scenario: scenarioName,
+            action: action.name,
+            result: toActionReport(result),
+            duration: result.duration,
+        });
+        return result;
+    };
+
+    const addResult = (
+        action: Action,
+        startedAt: Date,
+        duration: number,
+        passed: boolean,
+        reason?: unknown,
+    ): TestResult =>
+        recordResult(
+            action,
+            new TestResult({
+                action: action.description,
+                actionName: action.name,
+                actionType: actionTypeName(action.type),
+                start: startedAt,
+                duration,
+                successful: passed,
+                allowFailure: action.allowFailure,
+                errorMessage: reason ? errorMessageOf(reason) : undefined,
+                errorStack: reason instanceof Error ? reason.stack : undefined,
+                diff:
+                    reason instanceof AssertionFailedError
+                        ? formatDiff(reason.diff)
+                        : undefined,
+                timedOut: reason instanceof TimeoutError,
+                aborted: reason instanceof AbortError,
+                payloads: runContext.takePayloads(scenarioName, action),
+            }),
+        );
+
     const handleError = (
         reason: unknown,
         action: Action,
+        startedAt: Date,
         start: [number, number],
         context: { scenario: string; action: string },
-    ): void => {
-        const duration = timeDiffInMs(process.hrtime(start)).toFixed(2);
+    ): TestResult => {
+        const duration = timeDiffInMs(process.hrtime(start));
+        const result = addResult(action, startedAt, duration, false, reason);
 
-        const scenarioResults = RESULTS.get(scenarioName);
-        if (scenarioResults)
-            scenarioResults.push(
-                new TestResult(
-                    action.description,
-                    duration,
-                    false,
-                    action.allowFailure,
-                ),
+        if (reason instanceof AssertionFailedError) {
+            // the escape sequences of the colors only end up on the console
+            getLogger(scenario.name, runContext).error(
+                `${reason.message}\n${formatDiff(reason.diff)}`,
+                {
+                    ...context,
+                    consoleMessage: `${reason.message}\n${colorDiff(
+                        reason.diff,
+                    )}`,
+                },
             );
-
-        if (reason)
-            getLogger(scenario.name).error(
-                reason instanceof Error
-                    ? reason.toString()
-                    : JSON.stringify(reason),
+        } else if (reason) {
+            getLogger(scenario.name, runContext).error(
+                errorMessageOf(reason),
                 context,
             );
-        getLogger(scenario.name).info(
-            pad(MSG_WIDTH, ` Time: ${duration} ms ###########`, '#'),
+        }
+        getLogger(scenario.name, runContext).info(
+            pad(MSG_WIDTH, ` Time: ${duration.toFixed(2)} ms ###########`, '#'),
             context,
         );
 
         if (action.allowFailure !== true) {
             successful = false;
         }
+        return result;
     };
 
-    for (const action of scenario.actions) {
+    const runAfterActionHook = async (
+        action: Action,
+        result: TestResult,
+        context: { scenario: string; action: string },
+    ): Promise<void> => {
+        if (!runContext.hooks.afterAction) return;
+        try {
+            await runContext.hooks.afterAction(
+                scenario,
+                action,
+                toActionReport(result),
+            );
+        } catch (e) {
+            getLogger(scenario.name, runContext).error(
+                `The afterAction hook failed: ${errorMessageOf(e)}`,
+                context,
+            );
+        }
+    };
+
+    /*
+     * The action is cancelled after its own timeout or when the scenario's
+     * deadline is reached, whichever comes first. Once the deadline is over,
+     * only the actions with 'invokeEvenOnFail' are still invoked (e.g. to clean
+     * up) and just limited by their own timeout.
+     */
+    const timeoutOf = (
+        action: Action,
+    ): { timeoutInMs?: number; timeoutError: TimeoutError } => {
+        const actionTimeout = {
+            timeoutInMs:
+                action.timeoutInSec !== undefined
+                    ? action.timeoutInSec * 1000
+                    : undefined,
+            timeoutError: new TimeoutError(action.timeoutInSec ?? 0),
+        };
+        if (
+            scenarioDeadline === undefined ||
+            Date.now() >= scenarioDeadline.atInMs
+        ) {
+            return actionTimeout;
+        }
+        const remainingScenarioTime = scenarioDeadline.atInMs - Date.now();
+        return actionTimeout.timeoutInMs !== undefined &&
+            actionTimeout.timeoutInMs <= remainingScenarioTime
+            ? actionTimeout
+            : {
+                  timeoutInMs: remainingScenarioTime,
+                  timeoutError: new TimeoutError(
+                      scenarioDeadline.timeoutInSec,
+                      'Scenario',
+                  ),
+              };
+    };
+
+    const invokeStep = async (
+        action: Action,
+        { condition, background, id }: StepOptions,
+        race?: Race,
+    ): Promise<void> => {
+        if (runContext.aborted) {
+            recordResult(action, abortedResult(action, runContext));
+            return;
+        }
         if (!successful) {
             // after first ERROR skip further actions unless 'Action#invokeEvenOnFail' is set to TRUE
-            if (!action.invokeEvenOnFail) continue;
+            if (!action.invokeEvenOnFail) {
+                recordResult(action, skippedResult(action));
+                return;
+            }
+        }
+        if (race && race.winner !== undefined) {
+            recordResult(
+                action,
+                skippedResult(action, new RaceLostError(race.winner).message),
+            );
+            return;
         }
 
         const context = { ...ctx, action: action.name };
 
-        getLogger(scenarioName).info(
+        if (condition) {
+            const previousResults = runContext.results.get(scenarioName) ?? [];
+            let skipReason: string | undefined;
+            try {
+                skipReason = skipReasonOf(
+                    condition,
+                    scenario,
+                    previousResults[previousResults.length - 1],
+                );
+            } catch (e) {
+                handleError(
+                    new Error(
+                        `The condition could not be evaluated: ${errorMessageOf(
+                            e,
+                        )}`,
+                    ),
+                    action,
+                    new Date(),
+                    process.hrtime(),
+                    context,
+                );
+                return;
+            }
+            if (skipReason !== undefined) {
+                getLogger(scenarioName, runContext).info(
+                    `Skipping '${action.description}': ${skipReason}`,
+                    context,
+                );
+                addSkippedAction(
+                    runContext,
+                    scenario,
+                    action.description,
+                    skipReason,
+                );
+                recordResult(action, skippedResult(action, skipReason));
+                return;
+            }
+        }
+
+        if (
+            scenarioDeadline !== undefined &&
+            Date.now() >= scenarioDeadline.atInMs &&
+            !action.invokeEvenOnFail
+        ) {
+            // the scenario timed out before the action could be invoked
+            handleError(
+                new TimeoutError(scenarioDeadline.timeoutInSec, 'Scenario'),
+                action,
+                new Date(),
+                process.hrtime(),
+                context,
+            );
+            return;
+        }
+
+        getLogger(scenarioName, runContext).info(
             pad(`#### (A): ${action.description} `, MSG_WIDTH, '#'),
             context,
         );
+        emitEvent(runContext, 'actionStart', {
+            scenario: scenarioName,
+            action: action.name,
+            description: action.description,
+            type: actionTypeName(action.type),
+        });
+        const startedAt = new Date();
         const start = process.hrtime();
 
-        const actionCallback = action.invoke(scenario);
-        const actionPromise = actionCallback.promise
+        if (runContext.hooks.beforeAction) {
+            try {
+                await runContext.hooks.beforeAction(scenario, action);
+            } catch (e) {
+                handleError(
+                    new Error(
+                        `The beforeAction hook failed: ${errorMessageOf(e)}`,
+                    ),
+                    action,
+                    startedAt,
+                    start,
+                    context,
+                );
+                return;
+            }
+        }
+
+        const actionCallback = action.invoke(scenario, runContext);
+        let invokedCallback = runContext.abortable(actionCallback);
+        if (race) {
+            const { callback, cancelWith } = cancellable(invokedCallback);
+            invokedCallback = callback;
+            race.runningActions.set(action, cancelWith);
+        }
+        const { timeoutInMs, timeoutError } = timeoutOf(action);
+        const actionPromise = withTimeout(
+            invokedCallback,
+            timeoutInMs,
+            timeoutError,
+        )
             .then(result => {
-                const duration = timeDiffInMs(process.hrtime(start)).toFixed(2);
-
-                const scenarioResults = RESULTS.get(scenarioName);
-                if (scenarioResults)
-                    scenarioResults.push(
-                        new TestResult(
-                            action.description,
-                            duration,
-                            true,
-                            action.allowFailure,
-                        ),
-                    );
+                const duration = timeDiffInMs(process.hrtime(start));
+                const testResult = addResult(action, startedAt, duration, true);
 
                 if (result)
-                    getLogger(scenario.name).debug(
+                    getLogger(scenario.name, runContext).debug(
                         JSON.stringify(result),
                         context,
                     );
-                getLogger(scenario.name).info(
-                    pad(MSG_WIDTH, ` Time: ${duration} ms ###########`, '#'),
+                getLogger(scenario.name, runContext).info(
+                    pad(
+                        MSG_WIDTH,
+                        ` Time: ${duration.toFixed(2)} ms ###########`,
+                        '#',
+                    ),
+                    context,
+                );
+                return testResult;
+            })
+            .catch(reason => {
+                if (!(reason instanceof RaceLostError)) {
+                    return handleError(
+                        reason,
+                        action,
+                        startedAt,
+                        start,
+                        context,
+                    );
+                }
+                getLogger(scenario.name, runContext).info(
+                    reason.message,
                     context,
                 );
+                return recordResult(
+                    action,
+                    skippedResult(action, reason.message),
+                );
             })
-            .catch(reason => handleError(reason, action, start, context));
+            .then(testResult => {
+                if (race) race.finish(action);
+                return runAfterActionHook(action, testResult, context);
+            });
 
-        if (
-            action.type === ActionType.WEBSOCKET ||
-            action.type === ActionType.AMQP_LISTEN
-        ) {
-            actionsToCancel.push(actionCallback);
+        const actionType = findActionType(actionTypeName(action.type));
+        if (background ?? actionType?.runsInBackground) {
+            if (actionType?.cancelAtScenarioEnd) {
+                actionsToCancel.push(actionCallback);
+            }
+            actionsToAwaitAtEnd.push(actionPromise);
+            if (id !== undefined) {
+                // an `await` step waits for all iterations of a loop
+                const previousIterations = scenario.runningSteps.get(id);
+                scenario.runningSteps.set(
+                    id,
+                    previousIterations
+                        ? Promise.all([previousIterations, actionPromise])
+                        : actionPromise,
+                );
+            }
+        } else {
+            await actionPromise;
         }
+    };
+
+    const invokeAction = async (action: Action, race?: Race): Promise<void> => {
+        const options = scenario.stepOptions.get(action) ?? {};
+        const { loop } = options;
         if (
-            action.type === ActionType.MQTT ||
-            action.type === ActionType.WEBSOCKET ||
-            action.type === ActionType.AMQP_LISTEN
+            loop === undefined ||
+            runContext.aborted ||
+            (!successful && !action.invokeEvenOnFail)
         ) {
-            actionsToAwaitAtEnd.push(actionPromise);
-        } else {
-            await actionPromise; // eslint-disable-line no-await-in-loop
+            await invokeStep(action, options, race);
+            return;
+        }
+
+        let iterations: Iteration[];
+        try {
+            iterations = iterationsOf(loop, scenario, runContext);
+        } catch (e) {
+            handleError(e, action, new Date(), process.hrtime(), {
+                ...ctx,
+                action: action.name,
+            });
+            return;
+        }
+        for (const { item, index } of iterations) {
+            scenario.cache.set('item', item);
+            scenario.cache.set('index', index);
+            const iteration = iterationOf(action, index);
+            addDivider(
+                runContext,
+                scenario,
+                loop.forEach !== undefined
+                    ? `${iteration.description}: ${JSON.stringify(item)}`
+                    : iteration.description,
+            );
+            await invokeStep(iteration, options, race); // eslint-disable-line no-await-in-loop
+        }
+        // `item` and `index` are only defined while iterating
+        scenario.cache.delete('item');
+        scenario.cache.delete('index');
+    };
+
+    for (const action of scenario.actions) {
+        const group = scenario.stepOptions.get(action)?.group;
+        if (group === undefined) {
+            await invokeAction(action); // eslint-disable-line no-await-in-loop
+        } else if (group.actions[0] === action) {
+            // the actions of a `parallel` block are invoked together with its first one
+            const race = group.race ? new Race() : undefined;
+            // eslint-disable-next-line no-await-in-loop
+            await Promise.all(group.actions.map(a => invokeAction(a, race)));
         }
     }
 
     // stop all async running actions
     actionsToCancel.forEach(callback => callback.cancel());
     await Promise.all(actionsToAwaitAtEnd);
+    scenario.runningSteps.clear();
+
+    emitEvent(runContext, 'scenarioEnd', {
+        scenario: scenarioName,
+        report: toScenarioReport(
+            scenarioName,
+            scenario.description,
+            runContext.results.get(scenarioName) ?? [],
+        ),
+    });
+}
+
+/**
+ * Emits an event of the run. Failing listeners are only logged, so that they
+ * cannot break the run.
+ */
+function emitEvent<E extends RunEventName>(
+    runContext: RunContext,
+    event: E,
+    payload: RunEvents[E],
+): void {
+    try {
+        runContext.events.emit(event, payload);
+    } catch (e) {
+        getLogger('setup', runContext).error(
+            `A listener of the '${event}' event failed: ${errorMessageOf(e)}`,
+        );
+    }
+}
+
+/* the state of a `parallel` block in race mode */
+class Race {
+    /* the description of the first finished action */
+    public winner?: string;
+
+    /* the actions still running with the function cancelling them */
+    public readonly runningActions = new Map<Action, (reason: Error) => void>();
+
+    /* the first finished action wins the race, the others are cancelled */
+    public finish(action: Action): void {
+        if (this.winner !== undefined) return;
+        this.winner = action.description;
+        this.runningActions.delete(action);
+        this.runningActions.forEach(cancelWith =>
+            cancelWith(new RaceLostError(action.description)),
+        );
+    }
+}
+
+/**
+ * Evaluates the `if` and `unless` conditions of the step.
+ * @param previousResult The result of the previously finished action, if any
+ * @returns Why the step is skipped or `undefined` if it is to be invoked
+ */
+function skipReasonOf(
+    condition: StepCondition,
+    scenario: Scenario,
+    previousResult?: TestResult,
+): string | undefined {
+    const previous: PreviousOutcome | undefined = previousResult && {
+        name: previousResult.actionName,
+        status: previousResult.status,
+        passed: previousResult.status === 'passed',
+        failed: !['passed', 'skipped'].includes(previousResult.status),
+        skipped: previousResult.status === 'skipped',
+    };
+    if (
+        condition.if !== undefined &&
+        !evaluateCondition(condition.if, scenario.cache, previous)
+    ) {
+        return `condition 'if: ${condition.if}' is not met`;
+    }
+    if (
+        condition.unless !== undefined &&
+        evaluateCondition(condition.unless, scenario.cache, previous)
+    ) {
+        return `condition 'unless: ${condition.unless}' is met`;
+    }
+    return undefined;
+}
+
+/**
+ * Determines the iterations of the step at the time it is to be invoked, so
+ * that it can iterate over a list fetched by a previous action.
+ * @throws Error if the number of iterations or the list is invalid
+ */
+function iterationsOf(
+    loop: StepLoop,
+    scenario: Scenario,
+    runContext: RunContext,
+): Iteration[] {
+    if (loop.repeat !== undefined && loop.forEach !== undefined) {
+        throw new Error(
+            "A step can either 'repeat' or iterate 'forEach', but not both",
+        );
+    }
+    if (loop.forEach !== undefined) {
+        let list = scenario.cache.get(loop.forEach);
+        if (typeof list === 'string') {
+            try {
+                list = JSON.parse(list);
+            } catch (e) {
+                // reported below as not being a list
+            }
+        }
+        if (!Array.isArray(list)) {
+            throw new Error(
+                `'forEach' expects the variable '${
+                    loop.forEach
+                }' to be a list, but it is: ${JSON.stringify(list)}`,
+            );
+        }
+        return list.map((item, index) => ({ item, index }));
+    }
+    const repeat = Number(
+        typeof loop.repeat === 'string'
+            ? injectEvalAndVarsToString(loop.repeat, scenario.cache, {
+                  scenario: scenario.name,
+                  runContext,
+              })
+            : loop.repeat,
+    );
+    if (!Number.isInteger(repeat) || repeat < 0) {
+        throw new Error(
+            `'repeat' expects a non-negative integer, but it is: ${loop.repeat}`,
+        );
+    }
+    return Array.from({ length: repeat }, (_, index) => ({
+        item: index,
+        index,
+    }));
+}
+
+/**
+ * The action of a single iteration: it behaves like the step's action, but is
+ * labeled with the index of the iteration.
+ */
+function iterationOf(action: Action, index: number): Action {
+    return Object.create(action, {
+        description: { value: `${action.description} [${index}]` },
+    });
+}
+
+function skippedResult(action: Action, reason?: string): TestResult {
+    return new TestResult({
+        action: action.description,
+        actionName: action.name,
+        actionType: actionTypeName(action.type),
+        duration: 0,
+        successful: false,
+        allowFailure: action.allowFailure,
+        skipped: true,
+        errorMessage: reason,
+    });
+}
+
+function abortedResult(action: Action, runContext: RunContext): TestResult {
+    return new TestResult({
+        action: action.description,
+        actionName: action.name,
+        actionType: actionTypeName(action.type),
+        duration: 0,
+        successful: false,
+        allowFailure: action.allowFailure,
+        aborted: true,
+        errorMessage: `${runContext.abortReason} before the action was invoked`,
+    });
+}
+
+const TERMINATION_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+const SIGNAL_EXIT_CODES: { [signal: string]: number } = {
+    SIGINT: 130,
+    SIGTERM: 143,
+};
+
+/**
+ * Aborts the run on the first SIGINT or SIGTERM, so that the results of what
+ * has been completed so far are still printed, drawn and reported. A second
+ * signal terminates the process immediately.
+ * @returns A function removing the signal handlers again
+ */
+function abortOnTerminationSignals(runContext: RunContext): () => void {
+    const handler = (signal: NodeJS.Signals): void => {
+        if (runContext.aborted) {
+            process.exit(SIGNAL_EXIT_CODES[signal]);
+        }
+        getLogger('setup', runContext).warn(
+            `Received ${signal}, aborting the run (send it again to terminate immediately)`,
+        );
+        runContext.abort(`Run aborted by ${signal}`);
+    };
+    TERMINATION_SIGNALS.forEach(signal => process.on(signal, handler));
+    return () =>
+        TERMINATION_SIGNALS.forEach(signal =>
+            process.removeListener(signal, handler),
+        );
+}
+
+function errorMessageOf(reason: unknown): string {
+    return reason instanceof Error ? reason.toString() : JSON.stringify(reason);
 }
 
-function printResults(): void {
-    RESULTS.forEach((result, scenario) => {
+const STATUS_LABELS: { [status in ActionStatus]: string } = {
+    passed: ' OK',
+    ignored: 'IGN',
+    failed: 'NOK',
+    timedOut: 'TMO',
+    aborted: 'ABT',
+    skipped: 'SKP',
+};
+
+function printResults(runContext: RunContext, scenarios: Scenario[]): void {
+    scenarios.forEach(({ name: scenario }) => {
+        const result = runContext.results.get(scenario) ?? [];
         const ctx = { scenario };
         const MSG_WIDTH = 100;
 
-        getLogger(scenario).info(
+        getLogger(scenario, runContext).info(
             pad(`#### SUMMARY: ${scenario} `, MSG_WIDTH, '#'),
             ctx,
         );
 
         result.forEach((res: TestResult) => {
-            if (res.successful === true) {
-                getLogger(scenario).info(
-                    ` OK: ${pad(res.action, 50)} ${res.duration} ms`,
-                    ctx,
-                );
-            } else if (res.allowFailure === true) {
-                getLogger(scenario).info(
-                    `IGN: ${pad(res.action, 50)} ${res.duration} ms`,
-                    ctx,
-                );
-            } else {
-                getLogger(scenario).info(
-                    `NOK: ${pad(res.action, 50)} ${res.duration} ms`,
-                    ctx,
-                );
-            }
+            getLogger(scenario, runContext).info(
+                `${STATUS_LABELS[res.status]}: ${pad(
+                    res.action,
+                    50,
+                )} ${res.duration.toFixed(2)} ms`,
+                ctx,
+            );
         });
 
-        getLogger(scenario).info(pad(MSG_WIDTH, '#', '#'), ctx);
+        getLogger(scenario, runContext).info(pad(MSG_WIDTH, '#', '#'), ctx);
     });
 }
 
-async function generateDiagramsAndDetermineSuccess(
-    drawDiagrams: boolean,
-): Promise<boolean> {
-    let anyError = false;
-    const diagrams: Promise<void>[] = [];
-    RESULTS.forEach((results, scenario) => {
-        if (drawDiagrams) {
-            diagrams.push(generateSequenceDiagram(scenario));
+function printFilteredOutScenarios(
+    runContext: RunContext,
+    scenarios: Scenario[],
+): void {
+    if (scenarios.length === 0) return;
+
+    const logger = getLogger('setup', runContext);
+    logger.info(
+        `FILTERED OUT: ${scenarios.length} scenario(s) not matching the tag filter`,
+    );
+    scenarios.forEach(({ name, tags }) =>
+        logger.info(`SKP: ${pad(name, 50)} tags: [${tags.join(', ')}]`),
+    );
+}
+
+/*
+ * Writes the enabled reports of the run. A report which cannot be written is
+ * set as the error of the run, but does not discard the results of the
+ * scenarios.
+ */
+function writeReports(
+    runContext: RunContext,
+    report: RunReport,
+    junitReportEnabled: boolean,
+    htmlReportEnabled: boolean,
+): RunReport {
+    const logger = getLogger('setup', runContext);
+    const errors: string[] = [];
+    if (junitReportEnabled) {
+        try {
+            const reportFile = writeJUnitReport(
+                runContext.results,
+                runContext.outDir,
+            );
+            logger.info(`JUnit report written to ${reportFile}`);
+        } catch (e) {
+            errors.push(
+                `The JUnit report could not be written: ${errorMessageOf(e)}`,
+            );
         }
-        anyError =
-            anyError || results.some(result => result.isConsideredFailure());
-    });
-    await Promise.all(diagrams);
-    return !anyError;
+    }
+    if (htmlReportEnabled) {
+        try {
+            const reportFile = writeHtmlReport(report, runContext);
+            logger.info(`HTML report written to ${reportFile}`);
+        } catch (e) {
+            errors.push(
+                `The HTML report could not be written: ${errorMessageOf(e)}`,
+            );
+        }
+    }
+    errors.forEach(error => logger.error(error));
+    return errors.length === 0
+        ? report
+        : { ...report, error: errors.join('\n') };
 }
 
-export const OUTPUT_DIR = (): string => OUT_DIR;
+async function generateDiagrams(
+    runContext: RunContext,
+    scenarios: Scenario[],
+): Promise<void> {
+    await Promise.all(
+        scenarios.map(scenario =>
+            generateSequenceDiagram(runContext, scenario.name),
+        ),
+    );
+}
@@ -0,0 +1,101 @@
+/* a line of the pretty printed JSON of the expected and/or the actual value */
+export interface DiffLine {
+    readonly kind: 'expected' | 'actual' | 'both';
+    readonly text: string;
+}
+
+/* above, the lines are not aligned but listed one after another to keep the diff cheap */
+const MAX_ALIGNED_CELLS = 1e6;
+
+const PREFIXES = { expected: '+ ', actual: '- ', both: '  ' };
+
+const ANSI_COLORS = { expected: '\u001b[32m', actual: '\u001b[31m', both: '' };
+
+const ANSI_RESET = '\u001b[39m';
+
+/* the header explaining the prefixes of the lines */
+export const DIFF_LEGEND = '+ expected - actual';
+
+function sortedKeys(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(sortedKeys);
+    if (typeof value !== 'object' || value === null) return value;
+    const object = value as { [key: string]: unknown };
+    return Object.keys(object)
+        .sort()
+        .reduce(
+            (sorted, key) => ({ ...sorted, [key]: sortedKeys(object[key]) }),
+            {},
+        );
+}
+
+function linesOf(value: unknown): string[] {
+    return (JSON.stringify(sortedKeys(value), null, 2) ?? 'undefined').split(
+        '\n',
+    );
+}
+
+/**
+ * Compares the pretty printed JSON of the expected and the actual value line
+ * by line (with sorted keys), the lines present in both values are kept in
+ * their order.
+ */
+export function diffJson(expected: unknown, actual: unknown): DiffLine[] {
+    const a = linesOf(expected);
+    const b = linesOf(actual);
+    if (a.length * b.length > MAX_ALIGNED_CELLS) {
+        return [
+            ...a.map(text => ({ kind: 'expected' as const, text })),
+            ...b.map(text => ({ kind: 'actual' as const, text })),
+        ];
+    }
+
+    // the lengths of the longest common subsequences of the remaining lines
+    const lengths = a.map(() => new Array<number>(b.length + 1).fill(0));
+    lengths.push(new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] =
+                a[i] === b[j]
+                    ? lengths[i + 1][j + 1] + 1
+                    : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push({ kind: 'both', text: a[i] });
+            i++;
+            j++;
+        } else if (
+            j >= b.length ||
+            (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])
+        ) {
+            lines.push({ kind: 'expected', text: a[i++] });
+        } else {
+            lines.push({ kind: 'actual', text: b[j++] });
+        }
+    }
+    return lines;
+}
+
+/* the diff with the expected lines prefixed by `+` and the actual ones by `-` */
+export function formatDiff(lines: DiffLine[]): string {
+    return [DIFF_LEGEND, ...lines.map(l => PREFIXES[l.kind] + l.text)].join(
+        '\n',
+    );
+}
+
+/* the diff for a terminal, the expected lines are green and the actual ones red */
+export function colorDiff(lines: DiffLine[]): string {
+    return [
+        `${ANSI_COLORS.expected}+ expected ${ANSI_COLORS.actual}- actual${ANSI_RESET}`,
+        ...lines.map(({ kind, text }) =>
+            kind === 'both'
+                ? PREFIXES.both + text
+                : `${ANSI_COLORS[kind]}${PREFIXES[kind]}${text}${ANSI_RESET}`,
+        ),
+    ].join('\n');
+}
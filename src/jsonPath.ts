@@ -0,0 +1,331 @@
+import { CompiledExpression, compileExpression } from './expressionEvaluation';
+import { JsonPathError } from './model/error/JsonPathError';
+
+type Selector =
+    | { readonly kind: 'name'; readonly name: string }
+    | { readonly kind: 'index'; readonly index: number }
+    | { readonly kind: 'wildcard' }
+    | {
+          readonly kind: 'slice';
+          readonly start?: number;
+          readonly end?: number;
+          readonly step: number;
+      }
+    | {
+          readonly kind: 'filter';
+          readonly expression: string;
+          readonly matches: (node: unknown) => boolean;
+      };
+
+/* a step of a path, e.g. `.items` or `..[0,1]` */
+interface Segment {
+    /* TRUE if the selectors are applied to all descendants (`..`) instead of the children */
+    readonly descendant: boolean;
+    readonly selectors: Selector[];
+}
+
+/* the name the current node (`@`) of a filter is bound to */
+const CURRENT_NODE = '__currentNode';
+
+export interface JsonPathResult {
+    /* the matched values in document order */
+    readonly values: unknown[];
+    /* TRUE if the path can match a single value at most, i.e. it only consists of names and indices */
+    readonly definite: boolean;
+}
+
+/* replaces `@` outside of string literals by the binding of the current node */
+function bindCurrentNode(expression: string): string {
+    let result = '';
+    let quote: string | undefined;
+    for (let i = 0; i < expression.length; i++) {
+        const char = expression[i];
+        if (quote !== undefined) {
+            if (char === '\\') {
+                result += char + (expression[i + 1] ?? '');
+                i++;
+            } else {
+                if (char === quote) quote = undefined;
+                result += char;
+            }
+        } else if (char === '@') {
+            result += CURRENT_NODE;
+        } else {
+            if (char === "'" || char === '"') quote = char;
+            result += char;
+        }
+    }
+    return result;
+}
+
+/* compiles a filter once for all nodes it is applied to, binding `@` to each of them */
+function filterOf(path: string, expression: string): Selector {
+    let evaluate: CompiledExpression;
+    try {
+        evaluate = compileExpression(expression, new Map());
+    } catch (e) {
+        throw new JsonPathError(
+            path,
+            `has an invalid filter '${expression}': ${e.message}`,
+        );
+    }
+    const matches = (node: unknown): boolean => {
+        try {
+            return !!evaluate({ [CURRENT_NODE]: node });
+        } catch (e) {
+            // nodes lacking a property of the filter do not match, e.g. `@.a.b` of `{}`
+            return false;
+        }
+    };
+    return { kind: 'filter', expression, matches };
+}
+
+function parseJsonPath(path: string): Segment[] {
+    let position = 0;
+
+    const fail = (reason: string): never => {
+        throw new JsonPathError(path, `is invalid: ${reason}`);
+    };
+
+    const skipSpaces = (): void => {
+        while (path[position] === ' ') position++;
+    };
+
+    const expect = (char: string): void => {
+        skipSpaces();
+        if (path[position] !== char) {
+            fail(`expected '${char}' at position ${position}`);
+        }
+        position++;
+    };
+
+    const readInteger = (): number | undefined => {
+        skipSpaces();
+        const match = /^-?\d+/.exec(path.substring(position));
+        if (match === null) return undefined;
+        position += match[0].length;
+        skipSpaces();
+        return Number(match[0]);
+    };
+
+    const readQuoted = (): string => {
+        const quote = path[position++];
+        let text = '';
+        while (path[position] !== quote) {
+            if (position >= path.length) fail('unterminated string');
+            if (path[position] === '\\') position++;
+            text += path[position++];
+        }
+        position++;
+        return text;
+    };
+
+    const readFilter = (): string => {
+        expect('(');
+        const start = position;
+        let depth = 1;
+        let quote: string | undefined;
+        while (depth > 0) {
+            if (position >= path.length) fail("missing ')'");
+            const char = path[position++];
+            if (quote !== undefined) {
+                if (char === '\\') position++;
+                else if (char === quote) quote = undefined;
+            } else if (char === "'" || char === '"') quote = char;
+            else if (char === '(') depth++;
+            else if (char === ')') depth--;
+        }
+        return bindCurrentNode(path.substring(start, position - 1));
+    };
+
+    const parseBracketItem = (): Selector => {
+        skipSpaces();
+        if (path[position] === "'" || path[position] === '"') {
+            const name = readQuoted();
+            skipSpaces();
+            return { kind: 'name', name };
+        }
+        const start = readInteger();
+        if (path[position] !== ':') {
+            return start !== undefined
+                ? { kind: 'index', index: start }
+                : fail(
+                      `unexpected '${path[position]}' at position ${position}`,
+                  );
+        }
+        position++;
+        const end = readInteger();
+        let step = 1;
+        if (path[position] === ':') {
+            position++;
+            step = readInteger() ?? 1;
+            if (step === 0) fail('the step of a slice must not be 0');
+        }
+        return { kind: 'slice', start, end, step };
+    };
+
+    const parseBracket = (): Selector[] => {
+        expect('[');
+        skipSpaces();
+        let selectors: Selector[];
+        if (path[position] === '*') {
+            position++;
+            selectors = [{ kind: 'wildcard' }];
+        } else if (path[position] === '?') {
+            position++;
+            selectors = [filterOf(path, readFilter())];
+        } else {
+            selectors = [parseBracketItem()];
+            while (path[position] === ',') {
+                position++;
+                selectors.push(parseBracketItem());
+            }
+        }
+        expect(']');
+        return selectors;
+    };
+
+    if (path[position++] !== '$') fail("it has to start with '$'");
+    const segments: Segment[] = [];
+    while (position < path.length) {
+        const descendant = path.startsWith('..', position);
+        if (descendant) position += 2;
+        else if (path[position] === '.') position++;
+        else if (path[position] !== '[') {
+            fail(`unexpected '${path[position]}' at position ${position}`);
+        }
+
+        if (path[position] === '[') {
+            segments.push({ descendant, selectors: parseBracket() });
+        } else {
+            const match = /^(\*|[\w$-]+)/.exec(path.substring(position));
+            if (match === null) fail(`expected a name at position ${position}`);
+            const [name] = match as RegExpExecArray;
+            position += name.length;
+            segments.push({
+                descendant,
+                selectors: [
+                    name === '*'
+                        ? { kind: 'wildcard' }
+                        : { kind: 'name', name },
+                ],
+            });
+        }
+    }
+    return segments;
+}
+
+const concat = (lists: unknown[][]): unknown[] =>
+    ([] as unknown[]).concat(...lists);
+
+function childrenOf(value: unknown): unknown[] {
+    if (Array.isArray(value)) return value;
+    return typeof value === 'object' && value !== null
+        ? Object.values(value)
+        : [];
+}
+
+function descendantsOf(value: unknown): unknown[] {
+    return [value, ...concat(childrenOf(value).map(descendantsOf))];
+}
+
+function sliceOf(
+    array: unknown[],
+    { start, end, step }: { start?: number; end?: number; step: number },
+): unknown[] {
+    const normalize = (index: number): number =>
+        index < 0 ? Math.max(array.length + index, -1) : index;
+    const result: unknown[] = [];
+    if (step > 0) {
+        const last = Math.min(normalize(end ?? array.length), array.length);
+        for (let i = Math.max(normalize(start ?? 0), 0); i < last; i += step) {
+            result.push(array[i]);
+        }
+    } else {
+        const last = end !== undefined ? normalize(end) : -1;
+        for (
+            let i = Math.min(
+                normalize(start ?? array.length),
+                array.length - 1,
+            );
+            i > last;
+            i += step
+        ) {
+            result.push(array[i]);
+        }
+    }
+    return result;
+}
+
+function select(selector: Selector, value: unknown): unknown[] {
+    switch (selector.kind) {
+        case 'name':
+            return typeof value === 'object' &&
+                value !== null &&
+                Object.prototype.hasOwnProperty.call(value, selector.name)
+                ? [(value as { [key: string]: unknown })[selector.name]]
+                : [];
+        case 'index': {
+            if (!Array.isArray(value)) return [];
+            const index =
+                selector.index < 0
+                    ? value.length + selector.index
+                    : selector.index;
+            return index >= 0 && index < value.length ? [value[index]] : [];
+        }
+        case 'wildcard':
+            return childrenOf(value);
+        case 'slice':
+            return Array.isArray(value) ? sliceOf(value, selector) : [];
+        default:
+            return childrenOf(value).filter(selector.matches);
+    }
+}
+
+/**
+ * Evaluates a JSONPath against a (parsed) JSON value. Supported are the root
+ * `$`, names (`.name`, `['name']`), indices (`[0]`, `[-1]`), wildcards (`*`),
+ * unions (`[0,1]`, `['a','b']`), slices (`[1:3]`, `[::2]`), recursive descent
+ * (`..name`) and filters (`[?(@.type == 'x')]`), whose expressions are
+ * evaluated like all other expressions with the current node as `@`.
+ * @param path The JSONPath, e.g. `$.items[?(@.type == 'x')].id`
+ * @param value The value the path is evaluated against
+ * @throws JsonPathError if the path is not well-formed
+ */
+export function evaluateJsonPath(path: string, value: unknown): JsonPathResult {
+    const segments = parseJsonPath(path);
+    const values = segments.reduce(
+        (nodes, { descendant, selectors }) =>
+            concat(
+                (descendant
+                    ? concat(nodes.map(descendantsOf))
+                    : nodes
+                ).map(node => concat(selectors.map(s => select(s, node)))),
+            ),
+        [value],
+    );
+    const definite = segments.every(
+        ({ descendant, selectors }) =>
+            !descendant &&
+            selectors.length === 1 &&
+            (selectors[0].kind === 'name' || selectors[0].kind === 'index'),
+    );
+    return { values, definite };
+}
+
+/**
+ * Extracts the value matched by a JSONPath: the matched value of a definite
+ * path (only names and indices) as it is, the matched values of any other
+ * path as a list, even if it matches a single value only.
+ * @throws JsonPathError if the path is not well-formed or matches nothing
+ */
+export function extractJsonPath(path: string, value: unknown): unknown {
+    const { values, definite } = evaluateJsonPath(path, value);
+    if (values.length === 0) {
+        throw new JsonPathError(
+            path,
+            `matched nothing in ${JSON.stringify(value)}`,
+        );
+    }
+    return definite ? values[0] : values;
+}
@@ -1,6 +1,7 @@
 import * as pad from 'pad';
+import { Writable } from 'stream';
 import { Logger, createLogger, format, transports } from 'winston';
-import { OUTPUT_DIR } from '.';
+import { DEFAULT_OUT_DIR, RunContext } from './model/RunContext';
 import { trim } from './util';
 
 const { combine, timestamp, printf } = format;
@@ -24,20 +25,74 @@ const myFormat = printf(
         }`,
 );
 
-export const getLogger = (scenario = 'unknown'): Logger =>
+/* the console shows the `consoleMessage` of an entry instead of its message, e.g. a colored diff */
+const consoleMessage = format(info =>
+    info.consoleMessage !== undefined
+        ? { ...info, message: info.consoleMessage }
+        : info,
+);
+
+const logEntryStreams: WeakMap<RunContext, Writable> = new WeakMap();
+
+/*
+ * Collects the log entries of the actions in the run context (in addition to
+ * the log files), e.g. to show them in the HTML report. Entries logging a
+ * payload are left out, as the report masks the hidden fields of payloads.
+ */
+function logEntryStreamOf(runContext: RunContext): Writable {
+    let stream = logEntryStreams.get(runContext);
+    if (stream === undefined) {
+        stream = new Writable({
+            objectMode: true,
+            write: (info, _, callback) => {
+                if (info.scenario && info.action && !info.payload) {
+                    runContext.recordLogEntry(info.scenario, info.action, {
+                        timestamp: info.timestamp,
+                        level: info.level,
+                        message: `${info.message}`,
+                    });
+                }
+                callback();
+            },
+        });
+        logEntryStreams.set(runContext, stream);
+    }
+    return stream;
+}
+
+export const getLogger = (
+    scenario = 'unknown',
+    runContext?: RunContext,
+): Logger =>
     createLogger({
         level: 'debug',
         format: combine(timestamp(), myFormat),
         transports: [
-            new transports.Console({ level: 'info' }),
+            new transports.Console({
+                level: 'info',
+                format: combine(consoleMessage(), myFormat),
+            }),
             new transports.File({
-                filename: `${OUTPUT_DIR()}/${scenario}.log`,
+                filename: `${
+                    runContext ? runContext.outDir : DEFAULT_OUT_DIR
+                }/${scenario}.log`,
                 level: 'debug',
             }),
+            ...(runContext
+                ? [
+                      new transports.Stream({
+                          stream: logEntryStreamOf(runContext),
+                          level: 'debug',
+                      }),
+                  ]
+                : []),
         ],
     });
 
 export interface LoggingContext {
     scenario?: string;
     action?: string;
+    runContext?: RunContext;
+    /* the entry logs a payload (or headers), which is only written to the log file */
+    payload?: boolean;
 }
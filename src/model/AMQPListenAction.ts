@@ -1,9 +1,9 @@
 import { connect, Connection, ConsumeMessage } from 'amqplib';
 import { URL } from 'url';
-import { runInNewContext } from 'vm';
 import { Action, ActionDefinition } from './Action';
 import { ActionCallback } from './ActionCallback';
 import { ActionType } from './ActionType';
+import { ValidationDefinition, VariableDefinition } from './Assertion';
 import {
     DiagramConfiguration,
     isValidDiagramConfiguration,
@@ -12,8 +12,11 @@ import {
     addAMQPReceivedMessage,
     addMissingAMQPMessage,
 } from '../diagramDrawing/amqp';
+import { checkMessage } from '../assertions';
+import { evaluateExpression } from '../expressionEvaluation';
 import { getLogger, LoggingContext } from '../logging';
 import { Scenario } from './Scenario';
+import { RunContext } from './RunContext';
 import { isArrayOfStrings } from '../util';
 import { injectEvalAndVarsToString } from '../variableInjection';
 import { UnexpectedNumberOfMessagesError } from './error/UnexpectedNumberOfMessagesError';
@@ -29,6 +32,9 @@ export interface AMQPListenActionDefinition extends ActionDefinition {
     readonly password?: string;
     readonly expectedNumberOfMessages: number;
     readonly messageFilter?: string[];
+    readonly stopOnExpectedMessages?: boolean;
+    readonly messageValidation?: ValidationDefinition[];
+    readonly variables?: { [name: string]: VariableDefinition };
     readonly diagramConfiguration?: DiagramConfiguration;
 }
 
@@ -51,6 +57,14 @@ export function isValidAMQPListenActionDefinition(
         typeof amqpListenActionDef.expectedNumberOfMessages === 'number' &&
         (typeof amqpListenActionDef.messageFilter === 'undefined' ||
             isArrayOfStrings(amqpListenActionDef.messageFilter)) &&
+        ['boolean', 'undefined'].includes(
+            typeof amqpListenActionDef.stopOnExpectedMessages,
+        ) &&
+        (typeof amqpListenActionDef.messageValidation === 'undefined' ||
+            Array.isArray(amqpListenActionDef.messageValidation)) &&
+        ['object', 'undefined'].includes(
+            typeof amqpListenActionDef.variables,
+        ) &&
         (typeof amqpListenActionDef.diagramConfiguration === 'undefined' ||
             isValidDiagramConfiguration(
                 amqpListenActionDef.diagramConfiguration,
@@ -69,6 +83,8 @@ export class AMQPListenAction implements Action {
 
     readonly allowFailure: boolean;
 
+    readonly timeoutInSec?: number;
+
     private readonly broker: string;
 
     private readonly url: string;
@@ -87,8 +103,18 @@ export class AMQPListenAction implements Action {
 
     private readonly messageFilter?: string[];
 
+    /* TRUE if the connection is closed as soon as the expected number of messages is received */
+    private readonly stopOnExpectedMessages: boolean;
+
+    private readonly messageValidation?: ValidationDefinition[];
+
+    private readonly variables?: { [name: string]: VariableDefinition };
+
     private numberOfReceivedMessages = 0;
 
+    /* why the first invalid message failed its validation */
+    private messageFailure?: Error;
+
     private readonly diagramConfiguration: DiagramConfiguration;
 
     private amqpConnection?: Connection = undefined;
@@ -100,6 +126,7 @@ export class AMQPListenAction implements Action {
             description = name,
             invokeEvenOnFail = false,
             allowFailure = false,
+            timeoutInSec,
             broker,
             username,
             password,
@@ -108,6 +135,9 @@ export class AMQPListenAction implements Action {
             routingKey,
             expectedNumberOfMessages,
             messageFilter,
+            stopOnExpectedMessages = false,
+            messageValidation,
+            variables,
             diagramConfiguration = {},
         }: AMQPListenActionDefinition,
     ) {
@@ -116,6 +146,7 @@ export class AMQPListenAction implements Action {
         this.description = description;
         this.invokeEvenOnFail = invokeEvenOnFail;
         this.allowFailure = allowFailure;
+        this.timeoutInSec = timeoutInSec;
         this.broker = broker;
         this.username = username;
         this.password = password;
@@ -124,6 +155,9 @@ export class AMQPListenAction implements Action {
         this.routingKey = routingKey;
         this.expectedNumberOfMessages = expectedNumberOfMessages;
         this.messageFilter = messageFilter;
+        this.stopOnExpectedMessages = stopOnExpectedMessages;
+        this.messageValidation = messageValidation;
+        this.variables = variables;
         this.diagramConfiguration = diagramConfiguration;
     }
 
@@ -137,6 +171,7 @@ export class AMQPListenAction implements Action {
             invokeEvenOnFail:
                 amqpDefinition.invokeEvenOnFail ?? template.invokeEvenOnFail,
             allowFailure: amqpDefinition.allowFailure ?? template.allowFailure,
+            timeoutInSec: amqpDefinition.timeoutInSec ?? template.timeoutInSec,
             broker: template.broker,
             username: amqpDefinition.username ?? template.username,
             password: amqpDefinition.password ?? template.password,
@@ -148,15 +183,24 @@ export class AMQPListenAction implements Action {
                 template.expectedNumberOfMessages,
             messageFilter:
                 amqpDefinition.messageFilter ?? template.messageFilter,
+            stopOnExpectedMessages:
+                amqpDefinition.stopOnExpectedMessages ??
+                template.stopOnExpectedMessages,
+            messageValidation: template.messageValidation
+                ? template.messageValidation.concat(
+                      amqpDefinition.messageValidation ?? [],
+                  )
+                : amqpDefinition.messageValidation,
+            variables: { ...template.variables, ...amqpDefinition.variables },
             diagramConfiguration:
                 amqpDefinition.diagramConfiguration ??
                 template.diagramConfiguration,
         });
     }
 
-    public invoke(scenario: Scenario): ActionCallback {
+    public invoke(scenario: Scenario, runContext: RunContext): ActionCallback {
         return {
-            promise: this.invokeAsync(scenario),
+            promise: this.invokeAsync(scenario, runContext),
             cancel: () => {
                 if (this.amqpConnection) {
                     this.amqpConnection.close().catch(() => {
@@ -167,9 +211,16 @@ export class AMQPListenAction implements Action {
         };
     }
 
-    private async invokeAsync(scenario: Scenario): Promise<void> {
-        const ctx = { scenario: scenario.name, action: this.name };
-        const logger = getLogger(scenario.name);
+    private async invokeAsync(
+        scenario: Scenario,
+        runContext: RunContext,
+    ): Promise<void> {
+        const ctx = {
+            scenario: scenario.name,
+            action: this.name,
+            runContext,
+        };
+        const logger = getLogger(scenario.name, runContext);
         const {
             url,
             username,
@@ -201,7 +252,7 @@ export class AMQPListenAction implements Action {
             });
             await channel.bindQueue(queue, exchange, routingKey);
             await channel.consume(queue, msg =>
-                this.onMessage(msg, scenario, exchange, routingKey),
+                this.onMessage(msg, scenario, runContext, exchange, routingKey),
             );
             logger.debug(
                 `Successfully bound queue ${queue} to routing key ${routingKey} on exchange ${exchange}.`,
@@ -210,21 +261,29 @@ export class AMQPListenAction implements Action {
 
             await new Promise((resolve, reject) => {
                 connection.on('error', err =>
-                    this.onError(scenario, reject, err),
+                    this.onError(scenario, runContext, reject, err),
                 );
                 connection.on('close', () =>
-                    this.onConnectionClose(scenario, resolve, reject),
+                    this.onConnectionClose(
+                        scenario,
+                        runContext,
+                        resolve,
+                        reject,
+                    ),
+                );
+                channel.on('error', err =>
+                    this.onError(scenario, runContext, reject, err),
                 );
-                channel.on('error', err => this.onError(scenario, reject, err));
                 channel.on('close', () =>
-                    this.onChannelClose(scenario, resolve, reject),
+                    this.onChannelClose(scenario, runContext, resolve, reject),
                 );
             });
         } catch (e) {
             if (!(e instanceof UnexpectedNumberOfMessagesError)) {
                 logger.error('Error establishing AMQP connection', ctx);
                 addMissingAMQPMessage(
-                    scenario.name,
+                    runContext,
+                    scenario,
                     exchange,
                     routingKey,
                     this.expectedNumberOfMessages,
@@ -240,14 +299,19 @@ export class AMQPListenAction implements Action {
     private onMessage(
         msg: ConsumeMessage | null,
         scenario: Scenario,
+        runContext: RunContext,
         exchange: string,
         routingKey: string,
     ): void {
-        const logger = getLogger(scenario.name);
-        const ctx = { scenario: scenario.name, action: this.name };
+        const logger = getLogger(scenario.name, runContext);
+        const ctx = {
+            scenario: scenario.name,
+            action: this.name,
+            runContext,
+        };
 
         const parsedMessage = msg && JSON.parse(msg.content.toString());
-        if (this.isMessageRelevant(parsedMessage, scenario)) {
+        if (this.isMessageRelevant(parsedMessage, scenario, runContext)) {
             this.numberOfReceivedMessages++;
             logger.debug(
                 `Received relevant AMQP message (${
@@ -255,37 +319,80 @@ export class AMQPListenAction implements Action {
                 }/${this.expectedNumberOfMessages}): ${JSON.stringify(
                     parsedMessage,
                 )}`,
-                ctx,
+                { ...ctx, payload: true },
             );
             addAMQPReceivedMessage(
-                scenario.name,
+                runContext,
+                scenario,
                 exchange,
                 routingKey,
                 parsedMessage,
                 this.diagramConfiguration,
             );
+            runContext.recordPayload(
+                scenario.name,
+                this,
+                `Received message on '${exchange}' (${routingKey})`,
+                parsedMessage,
+                this.diagramConfiguration,
+            );
+            try {
+                checkMessage(
+                    parsedMessage,
+                    {
+                        messageValidation: this.messageValidation,
+                        variables: this.variables,
+                    },
+                    scenario.cache,
+                    ctx,
+                );
+            } catch (e) {
+                logger.error(`Invalid AMQP message: ${e.message}`, ctx);
+                this.messageFailure = this.messageFailure ?? e;
+            }
+            if (
+                this.stopOnExpectedMessages &&
+                this.numberOfReceivedMessages === this.expectedNumberOfMessages
+            ) {
+                logger.debug('Expected number of AMQP messages received', ctx);
+                if (this.amqpConnection) {
+                    this.amqpConnection.close().catch(() => {
+                        // the connection is already closed
+                    });
+                }
+            }
         } else {
             logger.debug(
                 `Received irrelevant AMQP message: ${JSON.stringify(
                     parsedMessage,
                 )}`,
-                ctx,
+                { ...ctx, payload: true },
             );
         }
     }
 
     private onConnectionClose(
         scenario: Scenario,
+        runContext: RunContext,
         resolve: (value?: unknown) => void,
         reject: (reason?: Error) => void,
     ): void {
-        const logger = getLogger(scenario.name);
-        const ctx = { scenario: scenario.name, action: this.name };
+        const logger = getLogger(scenario.name, runContext);
+        const ctx = {
+            scenario: scenario.name,
+            action: this.name,
+            runContext,
+        };
         logger.debug(`Successfully closed AMQP connection.`, ctx);
 
-        if (this.numberOfReceivedMessages !== this.expectedNumberOfMessages) {
+        if (this.messageFailure) {
+            this.onError(scenario, runContext, reject, this.messageFailure);
+        } else if (
+            this.numberOfReceivedMessages !== this.expectedNumberOfMessages
+        ) {
             this.onError(
                 scenario,
+                runContext,
                 reject,
                 new UnexpectedNumberOfMessagesError(
                     this.numberOfReceivedMessages,
@@ -299,13 +406,22 @@ export class AMQPListenAction implements Action {
 
     private onChannelClose(
         scenario: Scenario,
+        runContext: RunContext,
         resolve: (value?: unknown) => void,
         reject: (reason?: Error) => void,
     ): void {
-        const logger = getLogger(scenario.name);
-        const ctx = { scenario: scenario.name, action: this.name };
+        const logger = getLogger(scenario.name, runContext);
+        const ctx = {
+            scenario: scenario.name,
+            action: this.name,
+            runContext,
+        };
         logger.debug(`Successfully closed AMQP channel.`, ctx);
-        if (this.numberOfReceivedMessages !== this.expectedNumberOfMessages) {
+        if (this.messageFailure) {
+            reject(this.messageFailure);
+        } else if (
+            this.numberOfReceivedMessages !== this.expectedNumberOfMessages
+        ) {
             reject(
                 new UnexpectedNumberOfMessagesError(
                     this.numberOfReceivedMessages,
@@ -319,11 +435,13 @@ export class AMQPListenAction implements Action {
 
     private onError(
         scenario: Scenario,
+        runContext: RunContext,
         reject: (reason?: Error) => void,
         err: Error,
     ): void {
         addMissingAMQPMessage(
-            scenario.name,
+            runContext,
+            scenario,
             this.exchange,
             this.routingKey,
             this.expectedNumberOfMessages,
@@ -333,9 +451,17 @@ export class AMQPListenAction implements Action {
         reject(err);
     }
 
-    private isMessageRelevant(msg: unknown, scenario: Scenario): boolean {
-        const logger = getLogger(scenario.name);
-        const ctx = { scenario: scenario.name, action: this.name };
+    private isMessageRelevant(
+        msg: unknown,
+        scenario: Scenario,
+        runContext: RunContext,
+    ): boolean {
+        const logger = getLogger(scenario.name, runContext);
+        const ctx = {
+            scenario: scenario.name,
+            action: this.name,
+            runContext,
+        };
         const registeredMessageFilters = this.messageFilter;
 
         if (registeredMessageFilters) {
@@ -345,9 +471,11 @@ export class AMQPListenAction implements Action {
                     scenario.cache,
                     ctx,
                 ).toString();
-                const filterResult = !!runInNewContext(expandedFilter, {
-                    msg,
-                });
+                const filterResult = !!evaluateExpression(
+                    expandedFilter,
+                    scenario.cache,
+                    { msg },
+                );
                 logger.debug(
                     `Filter (${expandedFilter}): ${filterResult}`,
                     ctx,
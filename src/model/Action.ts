@@ -1,12 +1,15 @@
 import { Scenario } from './Scenario';
-import { ActionType, ActionTypeType } from './ActionType';
+import { ActionType } from './ActionType';
 import { ActionCallback } from './ActionCallback';
+import { RunContext } from './RunContext';
 
 export interface ActionDefinition {
     readonly description?: string;
-    readonly type: ActionTypeType;
+    readonly type: string;
     readonly invokeEvenOnFail?: boolean;
     readonly allowFailure?: boolean;
+    /* the action is cancelled and considered as timed out after this duration */
+    readonly timeoutInSec?: number;
 }
 
 export function isValidActionDefinition(
@@ -18,17 +21,20 @@ export function isValidActionDefinition(
     const actionDef = toBeValidated as ActionDefinition;
     return (
         ['string', 'undefined'].includes(typeof actionDef.description) &&
-        actionDef.type in ActionType &&
+        typeof actionDef.type === 'string' &&
         ['boolean', 'undefined'].includes(typeof actionDef.invokeEvenOnFail) &&
-        ['boolean', 'undefined'].includes(typeof actionDef.allowFailure)
+        ['boolean', 'undefined'].includes(typeof actionDef.allowFailure) &&
+        ['number', 'undefined'].includes(typeof actionDef.timeoutInSec)
     );
 }
 
 export interface Action {
     readonly name: string;
     readonly description: string;
-    readonly type: ActionType;
-    invoke(scenario: Scenario): ActionCallback;
+    /* one of the built-in types or the name of a registered custom type */
+    readonly type: ActionType | string;
+    invoke(scenario: Scenario, runContext: RunContext): ActionCallback;
     readonly invokeEvenOnFail: boolean;
     readonly allowFailure: boolean;
+    readonly timeoutInSec?: number;
 }
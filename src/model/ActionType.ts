@@ -9,3 +9,11 @@ export enum ActionType {
 }
 
 export type ActionTypeType = keyof typeof ActionType;
+
+/**
+ * Returns the name of the action's type as used in the YAML definitions, for
+ * built-in types as well as for the registered custom ones.
+ */
+export function actionTypeName(type: ActionType | string): string {
+    return typeof type === 'string' ? type : ActionType[type];
+}
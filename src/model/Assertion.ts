@@ -0,0 +1,56 @@
+/* extracts a variable from a response or message, e.g. `id: { jsonPath: '$.items[0].id' }` */
+export interface JsonPathExtractor {
+    readonly jsonPath: string;
+}
+
+/* a variable defined by an expression (e.g. `res.items[0].id`) or a JSONPath */
+export type VariableDefinition = string | JsonPathExtractor;
+
+/* the values of the `type` check, `array` and `null` are distinguished from `object` */
+export type ValueType =
+    | 'string'
+    | 'number'
+    | 'boolean'
+    | 'object'
+    | 'array'
+    | 'null'
+    | 'undefined';
+
+/**
+ * Asserts the actual value given either by a JSONPath (`path`) or by an
+ * expression (`value`, e.g. `res.user.name`), all given checks have to pass:
+ * - `equals`, `deepEquals`: the actual value equals (deeply) the expected one
+ * - `contains`: the actual string contains the expected one, the actual array
+ *   contains an element deeply equal to the expected one or the actual object
+ *   contains all properties of the expected one
+ * - `matches`, `matchesRegex`: the actual value (as JSON unless it is a string) matches the regular expression
+ * - `greaterThan`: the actual number is greater than the expected one
+ * - `type`: the actual value is of the given type
+ * - `count`: the number of elements of the actual array, or the number of values
+ *   matched by a path with wildcards, unions, slices, filters or recursive descent
+ * - `length`: like `count`, but also the length of the actual string
+ * - `exists`: the path matches (TRUE) or does not match (FALSE) any value,
+ *   respectively the expression is not `undefined`
+ */
+export interface Assertion {
+    readonly path?: string;
+    readonly value?: string;
+    readonly equals?: unknown;
+    readonly deepEquals?: unknown;
+    readonly contains?: unknown;
+    readonly matches?: string;
+    readonly matchesRegex?: string;
+    readonly greaterThan?: number;
+    readonly type?: ValueType;
+    readonly count?: number;
+    readonly length?: number;
+    readonly exists?: boolean;
+}
+
+/* an assertion on the value matched by a JSONPath */
+export interface JsonPathAssertion extends Assertion {
+    readonly path: string;
+}
+
+/* a validation defined by an expression (e.g. `res.code === 200`) or an assertion */
+export type ValidationDefinition = string | Assertion;
@@ -0,0 +1,66 @@
+import { Action } from './Action';
+import { ActionCallback } from './ActionCallback';
+import { Scenario } from './Scenario';
+import { RunContext } from './RunContext';
+import { getLogger } from '../logging';
+
+/* a (validated) `await` step of a scenario */
+export interface AwaitStepDefinition {
+    /* the `id` of the step to be awaited */
+    readonly await: string;
+    readonly description?: string;
+    readonly invokeEvenOnFail?: boolean;
+    readonly allowFailure?: boolean;
+    readonly timeoutInSec?: number;
+}
+
+/**
+ * Blocks the scenario until the step with the given `id`, which was invoked in
+ * the background, is finished. It passes no matter whether the awaited step
+ * passed, the outcome of the awaited step is reported by the step itself. If
+ * the step is not running (anymore), it passes immediately.
+ */
+export class AwaitAction implements Action {
+    readonly name: string;
+
+    readonly description: string;
+
+    readonly type = 'AWAIT';
+
+    readonly invokeEvenOnFail: boolean;
+
+    readonly allowFailure: boolean;
+
+    readonly timeoutInSec?: number;
+
+    private readonly stepId: string;
+
+    public constructor({
+        await: stepId,
+        description = `Await '${stepId}'`,
+        invokeEvenOnFail = false,
+        allowFailure = false,
+        timeoutInSec,
+    }: AwaitStepDefinition) {
+        this.name = `await ${stepId}`;
+        this.description = description;
+        this.invokeEvenOnFail = invokeEvenOnFail;
+        this.allowFailure = allowFailure;
+        this.timeoutInSec = timeoutInSec;
+        this.stepId = stepId;
+    }
+
+    public invoke(scenario: Scenario, runContext: RunContext): ActionCallback {
+        const runningStep = scenario.runningSteps.get(this.stepId);
+        getLogger(scenario.name, runContext).debug(
+            runningStep
+                ? `Awaiting the step '${this.stepId}'`
+                : `The step '${this.stepId}' is not running`,
+            { scenario: scenario.name, action: this.name, runContext },
+        );
+        return {
+            promise: runningStep ?? Promise.resolve(),
+            cancel: () => {},
+        };
+    }
+}
@@ -0,0 +1,24 @@
+import { Action } from './Action';
+
+/* what the scenarios need to know to invoke a flow */
+export interface FlowSignature {
+    readonly name: string;
+    /* the parameters with their default values, `null` if the parameter is required */
+    readonly parameters: { readonly [name: string]: unknown };
+    /* the variables written back into the variables of the invoking scenario */
+    readonly outputs: string[];
+}
+
+/* a reusable sequence of steps, invoked by the scenarios like a single action (see `FlowAction`) */
+export interface Flow extends FlowSignature {
+    readonly description?: string;
+    readonly actions: Action[];
+}
+
+export function requiredParametersOf(flow: FlowSignature): string[] {
+    return Object.keys(flow.parameters).filter(
+        name =>
+            flow.parameters[name] === null ||
+            flow.parameters[name] === undefined,
+    );
+}
@@ -0,0 +1,220 @@
+import { Action } from './Action';
+import { ActionCallback } from './ActionCallback';
+import { Flow, requiredParametersOf } from './Flow';
+import { Scenario } from './Scenario';
+import { RunContext } from './RunContext';
+import { TimeoutError } from './error/TimeoutError';
+import { randomSourceOf, useRandomSource } from '../dataGeneration';
+import { addDivider } from '../diagramDrawing/diagramDrawing';
+import { getLogger, LoggingContext } from '../logging';
+import { withTimeout } from '../timeout';
+import { reasonOf } from '../util';
+import { injectEvalAndVarsToMap } from '../variableInjection';
+
+/* a (validated) step of a scenario invoking a flow */
+export interface FlowStepDefinition {
+    /* the name of the flow */
+    readonly flow: string;
+    /* the arguments of the flow's parameters, the scenario's variables are injected */
+    readonly with?: { readonly [parameter: string]: unknown };
+    readonly description?: string;
+    readonly invokeEvenOnFail?: boolean;
+    readonly allowFailure?: boolean;
+    readonly timeoutInSec?: number;
+}
+
+/**
+ * Invokes the steps of a flow one after another as a single action. The steps
+ * do not see the variables of the scenario, but only the parameters of the
+ * flow and the variables they define themselves. Once all steps passed, the
+ * outputs of the flow are written back into the variables of the scenario.
+ * After a failed step, only the steps with `invokeEvenOnFail` are invoked.
+ */
+export class FlowAction implements Action {
+    readonly name: string;
+
+    readonly description: string;
+
+    readonly type = 'FLOW';
+
+    readonly invokeEvenOnFail: boolean;
+
+    readonly allowFailure: boolean;
+
+    readonly timeoutInSec?: number;
+
+    private readonly flow: Flow;
+
+    private readonly args: { readonly [parameter: string]: unknown };
+
+    public constructor(
+        flow: Flow,
+        {
+            with: args = {},
+            description = flow.description ?? flow.name,
+            invokeEvenOnFail = false,
+            allowFailure = false,
+            timeoutInSec,
+        }: FlowStepDefinition,
+    ) {
+        this.name = flow.name;
+        this.description = description;
+        this.invokeEvenOnFail = invokeEvenOnFail;
+        this.allowFailure = allowFailure;
+        this.timeoutInSec = timeoutInSec;
+        this.flow = flow;
+        this.args = args;
+    }
+
+    public invoke(scenario: Scenario, runContext: RunContext): ActionCallback {
+        let cancelled = false;
+        let cancelCurrent: () => void = () => {};
+
+        return {
+            promise: this.invokeSteps(scenario, runContext, {
+                onInvoke: callback => {
+                    cancelCurrent = callback.cancel;
+                },
+                isCancelled: () => cancelled,
+            }),
+            cancel: () => {
+                cancelled = true;
+                cancelCurrent();
+            },
+        };
+    }
+
+    private async invokeSteps(
+        scenario: Scenario,
+        runContext: RunContext,
+        {
+            onInvoke,
+            isCancelled,
+        }: {
+            onInvoke: (callback: ActionCallback) => void;
+            isCancelled: () => boolean;
+        },
+    ): Promise<void> {
+        const ctx = { scenario: scenario.name, action: this.name, runContext };
+        const logger = getLogger(scenario.name, runContext);
+        const variables = this.variablesOf(scenario.cache, ctx);
+        // the steps share everything with the scenario but its variables
+        const flowScenario: Scenario = Object.create(scenario, {
+            cache: { value: variables },
+        });
+        let failure: string | undefined;
+
+        addDivider(runContext, scenario, `flow: ${this.description}`);
+        for (const action of this.flow.actions) {
+            if (isCancelled()) return;
+            if (failure !== undefined && !action.invokeEvenOnFail) {
+                logger.info(`Skipping '${action.description}'`, ctx);
+            } else {
+                // eslint-disable-next-line no-await-in-loop
+                const stepFailure = await this.invokeStep(
+                    action,
+                    flowScenario,
+                    runContext,
+                    onInvoke,
+                );
+                failure = failure ?? stepFailure;
+            }
+        }
+        if (failure !== undefined) throw new Error(failure);
+
+        this.flow.outputs.forEach(output => {
+            if (!variables.has(output)) {
+                throw new Error(
+                    `The flow '${this.flow.name}' did not define its output '${output}'`,
+                );
+            }
+            scenario.cache.set(output, variables.get(output));
+        });
+    }
+
+    /**
+     * Invokes a step of the flow, its payloads are reported as payloads of
+     * the flow.
+     * @returns Why the flow fails because of the step, `undefined` if the
+     * step passed or is allowed to fail
+     */
+    private async invokeStep(
+        action: Action,
+        flowScenario: Scenario,
+        runContext: RunContext,
+        onInvoke: (callback: ActionCallback) => void,
+    ): Promise<string | undefined> {
+        const ctx = {
+            scenario: flowScenario.name,
+            action: this.name,
+            runContext,
+        };
+        const logger = getLogger(flowScenario.name, runContext);
+        let failure: string | undefined;
+
+        logger.info(
+            `Invoking '${action.description}' of the flow '${this.flow.name}'`,
+            ctx,
+        );
+        try {
+            const callback = action.invoke(flowScenario, runContext);
+            onInvoke(callback);
+            await withTimeout(
+                callback,
+                action.timeoutInSec !== undefined
+                    ? action.timeoutInSec * 1000
+                    : undefined,
+                new TimeoutError(action.timeoutInSec ?? 0),
+            );
+        } catch (e) {
+            logger.error(`'${action.description}' failed: ${reasonOf(e)}`, ctx);
+            if (!action.allowFailure) {
+                failure = `The step '${action.description}' of the flow '${
+                    this.flow.name
+                }' failed: ${reasonOf(e)}`;
+            }
+        }
+        runContext
+            .takePayloads(flowScenario.name, action)
+            .forEach(({ label, payload }) =>
+                runContext.recordPayload(
+                    flowScenario.name,
+                    this,
+                    `${action.description}: ${label}`,
+                    payload,
+                ),
+            );
+        return failure;
+    }
+
+    /* the parameters of the flow initialized with the arguments or their defaults */
+    private variablesOf(
+        scenarioVariables: Map<string, unknown>,
+        ctx: LoggingContext,
+    ): Map<string, unknown> {
+        const unknownParameter = Object.keys(this.args).find(
+            name => !(name in this.flow.parameters),
+        );
+        if (unknownParameter !== undefined) {
+            throw new Error(
+                `The flow '${this.flow.name}' has no parameter '${unknownParameter}'`,
+            );
+        }
+        const missingParameter = requiredParametersOf(this.flow).find(
+            name => this.args[name] === undefined,
+        );
+        if (missingParameter !== undefined) {
+            throw new Error(
+                `The flow '${this.flow.name}' requires the parameter '${missingParameter}'`,
+            );
+        }
+        const variables = new Map(
+            Object.entries({
+                ...this.flow.parameters,
+                ...injectEvalAndVarsToMap(this.args, scenarioVariables, ctx),
+            }),
+        );
+        useRandomSource(variables, randomSourceOf(scenarioVariables));
+        return variables;
+    }
+}
@@ -1,14 +1,17 @@
-import { connect } from 'mqtt';
-import { runInNewContext } from 'vm';
+import { connect, MqttClient } from 'mqtt';
 import { DiagramConfiguration } from '../diagramDrawing/diagramDrawing';
 import { addMissingMQTTMessage, addMqttMessage } from '../diagramDrawing/mqtt';
+import { checkMessage } from '../assertions';
+import { evaluateExpression } from '../expressionEvaluation';
 import { getLogger, LoggingContext } from '../logging';
 import { decodeProto } from '../protoParsing';
 import { injectEvalAndVarsToString } from '../variableInjection';
 import { Action } from './Action';
 import { ActionCallback } from './ActionCallback';
 import { ActionType } from './ActionType';
+import { ValidationDefinition, VariableDefinition } from './Assertion';
 import { Scenario } from './Scenario';
+import { RunContext } from './RunContext';
 
 class MqttAction implements Action {
     public name: string;
@@ -21,6 +24,8 @@ class MqttAction implements Action {
 
     public allowFailure = false;
 
+    public timeoutInSec?: number;
+
     private allowInsecure = false;
 
     private url: string;
@@ -41,6 +46,16 @@ class MqttAction implements Action {
 
     private messageFilter: string[];
 
+    /* TRUE if the connection is closed as soon as the expected number of messages is received */
+    private stopOnExpectedMessages: boolean;
+
+    private messageValidation?: ValidationDefinition[];
+
+    private variables?: { [name: string]: VariableDefinition };
+
+    /* why the first invalid message failed its validation */
+    private messageFailure?: Error;
+
     private messageEncoding?:
         | 'ascii'
         | 'utf8'
@@ -60,6 +75,8 @@ class MqttAction implements Action {
 
     private readonly diagramConfiguration: DiagramConfiguration;
 
+    private mqttClient?: MqttClient = undefined;
+
     public constructor(
         name: string,
         desc = name,
@@ -90,6 +107,10 @@ class MqttAction implements Action {
         invokeEvenOnFail = !!actionDef.invokeEvenOnFail,
         allowFailure = !!actionDef.allowFailure,
         diagramConfiguration = actionDef.diagramConfiguration ?? {},
+        timeoutInSec = actionDef.timeoutInSec,
+        stopOnExpectedMessages = !!actionDef.stopOnExpectedMessages,
+        messageValidation = actionDef.messageValidation,
+        variables = actionDef.variables,
     ) {
         this.name = name;
         this.url = url;
@@ -108,6 +129,10 @@ class MqttAction implements Action {
         this.allowFailure = allowFailure;
         this.allowInsecure = allowInsecure;
         this.diagramConfiguration = diagramConfiguration;
+        this.timeoutInSec = timeoutInSec;
+        this.stopOnExpectedMessages = stopOnExpectedMessages;
+        this.messageValidation = messageValidation;
+        this.variables = variables;
     }
 
     public static fromTemplate(
@@ -121,11 +146,16 @@ class MqttAction implements Action {
         );
     }
 
-    public invoke(scenario: Scenario): ActionCallback {
+    public invoke(scenario: Scenario, runContext: RunContext): ActionCallback {
         const promise = new Promise((resolve, reject) => {
-            this.invokeAsync(scenario, resolve, reject);
+            this.invokeAsync(scenario, runContext, resolve, reject);
         });
-        return { promise, cancel: () => console.log('TODO') };
+        return {
+            promise,
+            cancel: () => {
+                if (this.mqttClient) this.mqttClient.end(true);
+            },
+        };
     }
 
     public decodeProtoPayload(buffer: Buffer): { [k: string]: any } {
@@ -134,18 +164,22 @@ class MqttAction implements Action {
 
     private invokeAsync(
         scenario: Scenario,
+        runContext: RunContext,
         resolve: (value?: unknown) => void,
         reject: (reason?: unknown) => void,
     ): void {
         const registeredMessageFilters = this.messageFilter;
         const messageType = this.messageType || 'json';
 
-        const logDebug = (debugMessage: string): void => {
-            getLogger(scenario.name).debug(debugMessage, ctx);
+        const logDebug = (debugMessage: string, payload = false): void => {
+            getLogger(scenario.name, runContext).debug(debugMessage, {
+                ...ctx,
+                payload,
+            });
         };
 
         const logError = (errorMessage: string): void => {
-            getLogger(scenario.name).error(errorMessage, ctx);
+            getLogger(scenario.name, runContext).error(errorMessage, ctx);
         };
 
         const isMessageRelevant = (msg: unknown): boolean => {
@@ -156,9 +190,11 @@ class MqttAction implements Action {
                         scenario.cache,
                         ctx,
                     ).toString();
-                    const filterResult = !!runInNewContext(expandedFilter, {
-                        msg,
-                    });
+                    const filterResult = !!evaluateExpression(
+                        expandedFilter,
+                        scenario.cache,
+                        { msg },
+                    );
                     logDebug(`Filter (${expandedFilter}): ${filterResult}`);
                     return filterResult;
                 });
@@ -166,7 +202,11 @@ class MqttAction implements Action {
             return true;
         };
 
-        const ctx = { scenario: scenario.name, action: this.topic };
+        const ctx = {
+            scenario: scenario.name,
+            action: this.topic,
+            runContext,
+        };
 
         const { topic, username, password } = this.expandParameters(
             scenario.cache,
@@ -189,6 +229,8 @@ class MqttAction implements Action {
             resubscribe: true,
             rejectUnauthorized: !this.allowInsecure,
         });
+        this.mqttClient = client;
+        let durationTimer: NodeJS.Timeout | undefined;
 
         client.on('connect', () => {
             logDebug(
@@ -199,7 +241,8 @@ class MqttAction implements Action {
                 if (error) {
                     logError(`Error while subscribing to ${topic}: ${error}`);
                     addMissingMQTTMessage(
-                        scenario.name,
+                        runContext,
+                        scenario,
                         this.topic,
                         this.expectedNumberOfMessages,
                         this.numberOfReceivedMessages,
@@ -213,7 +256,10 @@ class MqttAction implements Action {
                 }
             });
 
-            setTimeout(() => client.end(), this.durationInSec * 1000);
+            durationTimer = setTimeout(
+                () => client.end(),
+                this.durationInSec * 1000,
+            );
         });
 
         client.on('message', (_, message: Buffer | string) => {
@@ -239,18 +285,51 @@ class MqttAction implements Action {
                     }/${this.expectedNumberOfMessages}): ${JSON.stringify(
                         msgObj,
                     )}`,
+                    true,
                 );
                 addMqttMessage(
-                    scenario.name,
+                    runContext,
+                    scenario,
                     topic,
                     msgObj,
                     this.diagramConfiguration,
                 );
+                runContext.recordPayload(
+                    scenario.name,
+                    this,
+                    `Received message on '${topic}'`,
+                    msgObj,
+                    this.diagramConfiguration,
+                );
+                try {
+                    checkMessage(
+                        msgObj,
+                        {
+                            messageValidation: this.messageValidation,
+                            variables: this.variables,
+                        },
+                        scenario.cache,
+                        ctx,
+                    );
+                } catch (e) {
+                    logError(`Invalid MQTT message: ${e.message}`);
+                    this.messageFailure = this.messageFailure ?? e;
+                }
+                if (
+                    this.stopOnExpectedMessages &&
+                    this.numberOfReceivedMessages ===
+                        this.expectedNumberOfMessages
+                ) {
+                    logDebug('Expected number of MQTT messages received');
+                    if (durationTimer) clearTimeout(durationTimer);
+                    client.end();
+                }
             } else {
                 logDebug(
                     `Irrelevant MQTT update received: ${JSON.stringify(
                         msgObj,
                     )}`,
+                    true,
                 );
             }
         });
@@ -261,12 +340,15 @@ class MqttAction implements Action {
 
         client.on('close', () => {
             logDebug(`MQTT connection closed!`);
-            if (
+            if (this.messageFailure) {
+                reject(this.messageFailure);
+            } else if (
                 this.numberOfReceivedMessages !== this.expectedNumberOfMessages
             ) {
                 const errorMsg = `Unexpected number of MQTT messages received: ${this.numberOfReceivedMessages} (expected: ${this.expectedNumberOfMessages})`;
                 addMissingMQTTMessage(
-                    scenario.name,
+                    runContext,
+                    scenario,
                     this.topic,
                     this.expectedNumberOfMessages,
                     this.numberOfReceivedMessages,
@@ -281,7 +363,8 @@ class MqttAction implements Action {
 
         client.on('error', error => {
             addMissingMQTTMessage(
-                scenario.name,
+                runContext,
+                scenario,
                 this.topic,
                 this.expectedNumberOfMessages,
                 this.numberOfReceivedMessages,
@@ -12,6 +12,7 @@ import { Action } from './Action';
 import { ActionCallback } from './ActionCallback';
 import { ActionType } from './ActionType';
 import { Scenario } from './Scenario';
+import { RunContext } from './RunContext';
 
 class MqttPublishAction implements Action {
     public name: string;
@@ -40,6 +41,8 @@ class MqttPublishAction implements Action {
 
     public allowFailure = false;
 
+    public timeoutInSec?: number;
+
     private allowInsecure = false;
 
     private readonly diagramConfiguration: DiagramConfiguration;
@@ -63,6 +66,7 @@ class MqttPublishAction implements Action {
         allowInsecure = actionDef.allowInsecure,
         diagramConfiguration = actionDef.diagramConfiguration ?? {},
         variableAsPayload = actionDef.variableAsPayload,
+        timeoutInSec = actionDef.timeoutInSec,
     ) {
         this.name = name;
         this.url = url;
@@ -79,6 +83,7 @@ class MqttPublishAction implements Action {
         this.allowInsecure = allowInsecure;
         this.diagramConfiguration = diagramConfiguration;
         this.variableAsPayload = variableAsPayload;
+        this.timeoutInSec = timeoutInSec;
     }
 
     public static fromTemplate(
@@ -92,9 +97,9 @@ class MqttPublishAction implements Action {
         );
     }
 
-    public invoke(scenario: Scenario): ActionCallback {
+    public invoke(scenario: Scenario, runContext: RunContext): ActionCallback {
         const promise = new Promise((resolve, reject) => {
-            this.invokeAsync(scenario, reject);
+            this.invokeAsync(scenario, runContext, reject);
             resolve();
         });
         return { promise, cancel: () => console.log('TODO') };
@@ -128,16 +133,27 @@ class MqttPublishAction implements Action {
         return [payload, payload];
     }
 
-    private invokeAsync(scenario: Scenario, reject): void {
-        const logDebug = (debugMessage: string): void => {
-            getLogger(scenario.name).debug(debugMessage, ctx);
+    private invokeAsync(
+        scenario: Scenario,
+        runContext: RunContext,
+        reject,
+    ): void {
+        const logDebug = (debugMessage: string, payload = false): void => {
+            getLogger(scenario.name, runContext).debug(debugMessage, {
+                ...ctx,
+                payload,
+            });
         };
 
         const logError = (errorMessage: string): void => {
-            getLogger(scenario.name).error(errorMessage, ctx);
+            getLogger(scenario.name, runContext).error(errorMessage, ctx);
         };
 
-        let ctx = { scenario: scenario.name, action: this.topic };
+        let ctx = {
+            scenario: scenario.name,
+            action: this.topic,
+            runContext,
+        };
 
         const { url, username, password } = this.expandParameters(
             scenario.cache,
@@ -192,37 +208,47 @@ class MqttPublishAction implements Action {
                 } else {
                     logDebug(
                         `Successfully published message to '${topic}': ${dataString}`,
+                        true,
                     );
 
                     if (this.protoFile) {
                         // log the hex dump of the sent proto payload
-                        logDebug('-- Encoded proto data --');
+                        logDebug('-- Encoded proto data --', true);
                         logDebug(
                             `Base64: ${Buffer.from(
                                 payload as Uint8Array,
                             ).toString('base64')}`,
+                            true,
                         );
-                        logDebug('Hex:');
-                        logDebug(hexdump(payload));
+                        logDebug('Hex:', true);
+                        logDebug(hexdump(payload), true);
                     }
 
                     addMqttPublishMessage(
-                        scenario.name,
+                        runContext,
+                        scenario,
                         topic,
                         `{"payload":${dataString}}`,
                         this.diagramConfiguration,
                     );
+                    runContext.recordPayload(
+                        scenario.name,
+                        this,
+                        `Published message on '${topic}'`,
+                        JSON.parse(dataString),
+                        this.diagramConfiguration,
+                    );
                     client.end();
                 }
             });
         });
 
         // client.on('close', () => {
-        //     getLogger(scenario.name).debug(`MQTT connection closed!`, ctx);
+        //     getLogger(scenario.name, runContext).debug(`MQTT connection closed!`, ctx);
         // });
 
         client.on('error', (error: any) => {
-            getLogger(scenario.name).error(
+            getLogger(scenario.name, runContext).error(
                 `Error during connection: ${error}`,
                 ctx,
             );
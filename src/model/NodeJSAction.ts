@@ -46,6 +46,8 @@ export class NodeJSAction implements Action {
 
     readonly allowFailure: boolean;
 
+    readonly timeoutInSec?: number;
+
     private readonly variables: { [key: string]: string };
 
     private readonly data: { [key: string]: string };
@@ -56,6 +58,7 @@ export class NodeJSAction implements Action {
             description = name,
             invokeEvenOnFail = false,
             allowFailure = false,
+            timeoutInSec,
             variables,
             data,
         }: NodeJSActionDefinition,
@@ -64,6 +67,7 @@ export class NodeJSAction implements Action {
         this.description = description;
         this.invokeEvenOnFail = invokeEvenOnFail;
         this.allowFailure = allowFailure;
+        this.timeoutInSec = timeoutInSec;
         this.variables = variables || {};
         this.data = data || {};
     }
@@ -83,6 +87,8 @@ export class NodeJSAction implements Action {
                 nodeJSDefinition.allowFailure != null
                     ? nodeJSDefinition.allowFailure
                     : template.allowFailure,
+            timeoutInSec:
+                nodeJSDefinition.timeoutInSec ?? template.timeoutInSec,
             variables: nodeJSDefinition.variables || template.variables,
             data: nodeJSDefinition.data || template.data,
         });
@@ -0,0 +1,185 @@
+import { Action } from './Action';
+import { ActionCallback } from './ActionCallback';
+import { ActionType } from './ActionType';
+import { Scenario } from './Scenario';
+import { RunContext } from './RunContext';
+import { StepPolling } from './StepPolling';
+import { RecordedPayload } from './TestResult';
+import { TimeoutError } from './error/TimeoutError';
+import { PollingDeadlineError } from './error/PollingDeadlineError';
+import { getLogger } from '../logging';
+import { withTimeout } from '../timeout';
+import { reasonOf } from '../util';
+import {
+    addPolledAction,
+    captureDiagram,
+} from '../diagramDrawing/diagramDrawing';
+
+/* an invocation of the wrapped action, its diagram entries are complete once the promise is settled */
+interface Attempt {
+    readonly promise: Promise<unknown>;
+    readonly diagram: () => string;
+}
+
+/**
+ * Re-invokes the wrapped action until it passes, e.g. until the response of an
+ * eventually consistent system is valid. The interval between two attempts
+ * grows by the backoff factor and no further attempt is started once the
+ * deadline is reached. Each attempt is limited by the timeout of the wrapped
+ * action, only the payloads and the diagram entries of the last attempt are
+ * reported.
+ */
+export class PollingAction implements Action {
+    readonly name: string;
+
+    readonly description: string;
+
+    readonly type: ActionType | string;
+
+    readonly invokeEvenOnFail: boolean;
+
+    readonly allowFailure: boolean;
+
+    /* the polling is limited by its deadline, every attempt by the timeout of the wrapped action */
+    readonly timeoutInSec = undefined;
+
+    private readonly action: Action;
+
+    private readonly polling: StepPolling;
+
+    public constructor(action: Action, polling: StepPolling) {
+        this.name = action.name;
+        this.description = action.description;
+        this.type = action.type;
+        this.invokeEvenOnFail = action.invokeEvenOnFail;
+        this.allowFailure = action.allowFailure;
+        this.action = action;
+        this.polling = polling;
+    }
+
+    public invoke(scenario: Scenario, runContext: RunContext): ActionCallback {
+        let cancelled = false;
+        let cancelCurrent: () => void = () => {};
+
+        const invokeAttempt = (): Attempt => {
+            const { result: callback, capture } = captureDiagram(
+                scenario,
+                capturingScenario =>
+                    this.action.invoke(capturingScenario, runContext),
+            );
+            cancelCurrent = callback.cancel;
+            const { timeoutInSec } = this.action;
+            return {
+                promise: withTimeout(
+                    callback,
+                    timeoutInSec !== undefined
+                        ? timeoutInSec * 1000
+                        : undefined,
+                    new TimeoutError(timeoutInSec ?? 0),
+                ),
+                diagram: () => capture.text,
+            };
+        };
+        const wait = (durationInMs: number): Promise<void> =>
+            new Promise(resolve => {
+                const timer = setTimeout(resolve, durationInMs);
+                cancelCurrent = () => {
+                    clearTimeout(timer);
+                    resolve();
+                };
+            });
+
+        return {
+            promise: this.poll(scenario, runContext, {
+                invokeAttempt,
+                wait,
+                isCancelled: () => cancelled,
+            }),
+            cancel: () => {
+                cancelled = true;
+                cancelCurrent();
+            },
+        };
+    }
+
+    private async poll(
+        scenario: Scenario,
+        runContext: RunContext,
+        {
+            invokeAttempt,
+            wait,
+            isCancelled,
+        }: {
+            invokeAttempt: () => Attempt;
+            wait: (durationInMs: number) => Promise<void>;
+            isCancelled: () => boolean;
+        },
+    ): Promise<unknown> {
+        const ctx = { scenario: scenario.name, action: this.name, runContext };
+        const logger = getLogger(scenario.name, runContext);
+        const {
+            deadlineInSec,
+            intervalInSec = 1,
+            backoffFactor = 1,
+            maxIntervalInSec = Infinity,
+        } = this.polling;
+        const deadline = Date.now() + deadlineInSec * 1000;
+        let interval = Math.min(intervalInSec, maxIntervalInSec);
+        let payloads: RecordedPayload[] = [];
+        let diagram = '';
+
+        const finish = (attempts: number, passed: boolean): void => {
+            addPolledAction(
+                runContext,
+                scenario,
+                this.description,
+                diagram,
+                attempts,
+                passed,
+            );
+            payloads.forEach(({ label, payload }) =>
+                runContext.recordPayload(scenario.name, this, label, payload),
+            );
+        };
+        for (let attempt = 1; ; attempt += 1) {
+            logger.info(`Attempt ${attempt} of '${this.description}'`, ctx);
+            const { promise, diagram: diagramOfAttempt } = invokeAttempt();
+            try {
+                const result = await promise; // eslint-disable-line no-await-in-loop
+                diagram = diagramOfAttempt();
+                payloads = runContext.takePayloads(scenario.name, this.action);
+                logger.info(`Attempt ${attempt} passed`, ctx);
+                finish(attempt, true);
+                return result;
+            } catch (e) {
+                diagram = diagramOfAttempt();
+                payloads = runContext.takePayloads(scenario.name, this.action);
+                const reason = reasonOf(e);
+                const remainingTimeInMs = deadline - Date.now();
+                if (isCancelled() || remainingTimeInMs <= 0) {
+                    logger.info(`Attempt ${attempt} failed: ${reason}`, ctx);
+                    finish(attempt, false);
+                    throw isCancelled()
+                        ? e
+                        : new PollingDeadlineError(
+                              attempt,
+                              deadlineInSec,
+                              reason,
+                          );
+                }
+                const delayInMs = Math.min(interval * 1000, remainingTimeInMs);
+                logger.info(
+                    `Attempt ${attempt} failed: ${reason}, retrying in ${delayInMs /
+                        1000} seconds`,
+                    ctx,
+                );
+                await wait(delayInMs); // eslint-disable-line no-await-in-loop
+                if (isCancelled()) {
+                    finish(attempt, false);
+                    throw e;
+                }
+                interval = Math.min(interval * backoffFactor, maxIntervalInSec);
+            }
+        }
+    }
+}
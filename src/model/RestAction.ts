@@ -12,6 +12,12 @@ import {
     addSuccessfulResponseArrow,
     addRequest,
 } from '../diagramDrawing/rest';
+import {
+    checkValidation,
+    explainFailedExpression,
+    extractVariable,
+} from '../assertions';
+import { evaluateExpression } from '../expressionEvaluation';
 import { getLogger, LoggingContext } from '../logging';
 import {
     injectEvalAndVarsToMap,
@@ -20,7 +26,14 @@ import {
 import { Action, ActionDefinition } from './Action';
 import { ActionCallback } from './ActionCallback';
 import { ActionType } from './ActionType';
+import {
+    Assertion,
+    ValidationDefinition,
+    VariableDefinition,
+} from './Assertion';
+import { AssertionFailedError } from './error/AssertionFailedError';
 import { Scenario } from './Scenario';
+import { RunContext } from './RunContext';
 
 // TODO: Implement correctly
 export interface RestActionDefinition extends ActionDefinition {
@@ -35,8 +48,8 @@ export interface RestActionDefinition extends ActionDefinition {
     readonly dataBinary?: PathLike;
     readonly form?: { [key: string]: string };
     readonly variableAsPayload?: string;
-    readonly responseValidation?: string[];
-    readonly variables?: { [key: string]: string };
+    readonly responseValidation?: ValidationDefinition[];
+    readonly variables?: { [key: string]: VariableDefinition };
     readonly expectedStatusCodes?: number[];
     readonly clientCertificate?: string;
     readonly clientKey?: string;
@@ -76,9 +89,9 @@ class RestAction implements Action {
 
     private readonly variableAsPayload?: string;
 
-    readonly responseValidation?: string[];
+    readonly responseValidation?: ValidationDefinition[];
 
-    readonly variables?: { [key: string]: string };
+    readonly variables?: { [key: string]: VariableDefinition };
 
     readonly expectedStatusCodes: number[];
 
@@ -86,6 +99,8 @@ class RestAction implements Action {
 
     readonly allowFailure: boolean;
 
+    readonly timeoutInSec?: number;
+
     readonly clientCertificate?: string;
 
     readonly clientKey?: string;
@@ -116,6 +131,7 @@ class RestAction implements Action {
         clientKey = actionDef.clientKey,
         expectBinaryResponse = actionDef.expectBinaryResponse ?? false,
         diagramConfiguration = actionDef.diagramConfiguration ?? {},
+        timeoutInSec = actionDef.timeoutInSec,
     ) {
         this.name = name;
         this.description = desc;
@@ -137,6 +153,7 @@ class RestAction implements Action {
         this.clientKey = clientKey;
         this.expectBinaryResponse = expectBinaryResponse;
         this.diagramConfiguration = diagramConfiguration;
+        this.timeoutInSec = timeoutInSec;
     }
 
     public static fromTemplate(
@@ -171,6 +188,7 @@ class RestAction implements Action {
             actionDef.clientKey ?? template.clientKey,
             actionDef.expectBinaryResponse ?? template.expectBinaryResponse,
             actionDef.diagramConfiguration ?? template.diagramConfiguration,
+            actionDef.timeoutInSec ?? template.timeoutInSec,
         );
     }
 
@@ -190,6 +208,7 @@ class RestAction implements Action {
         body: string | Buffer,
         contentType: string | undefined,
         ctx: LoggingContext,
+        runContext: RunContext,
     ): unknown {
         if (typeof body === 'string') {
             if (contentType && contentType.startsWith('application/json')) {
@@ -199,7 +218,7 @@ class RestAction implements Action {
                 return body;
             }
 
-            getLogger(ctx.scenario).debug(
+            getLogger(ctx.scenario, runContext).debug(
                 `Cannot parse string response body with content-type ${contentType}, handling it as string.`,
                 ctx,
             );
@@ -208,20 +227,30 @@ class RestAction implements Action {
         return Buffer.from(body); // TODO: Do we actually need to create a copy here or could we simply return `body`?
     }
 
-    public invoke(scenario: Scenario): ActionCallback {
-        const ctx = { scenario: scenario.name, action: this.name };
+    public invoke(scenario: Scenario, runContext: RunContext): ActionCallback {
+        const ctx = {
+            scenario: scenario.name,
+            action: this.name,
+            runContext,
+        };
         const scenarioVariables = this.variables;
         const registeredValidations = this.responseValidation;
         const targetService = this.serviceName;
         // eslint-disable-next-line
         const expectedStatusCodes = this.expectedStatusCodes;
 
-        const logError = (errorMessage: string): void => {
-            getLogger(ctx.scenario).error(errorMessage, ctx);
+        const logError = (errorMessage: string, payload = false): void => {
+            getLogger(ctx.scenario, runContext).error(errorMessage, {
+                ...ctx,
+                payload,
+            });
         };
 
-        const logDebug = (debugMessage: string): void => {
-            getLogger(ctx.scenario).debug(debugMessage, ctx);
+        const logDebug = (debugMessage: string, payload = false): void => {
+            getLogger(ctx.scenario, runContext).debug(debugMessage, {
+                ...ctx,
+                payload,
+            });
         };
 
         logDebug(`Expected status codes: ${expectedStatusCodes}`);
@@ -234,21 +263,32 @@ class RestAction implements Action {
             res?: unknown;
             head?: IncomingHttpHeaders;
         }): void => {
-            // `res` & `head` needed for the `eval()` call
             if (scenarioVariables) {
                 for (const pair of Object.entries(scenarioVariables)) {
-                    if (pair[1].startsWith('res') && res !== undefined) {
-                        scenario.cache.set(pair[0], eval(pair[1]));
-                    } else if (
-                        pair[1].startsWith('head') &&
-                        head !== undefined
+                    // JSONPaths are evaluated against the response body
+                    if (
+                        typeof pair[1] === 'string'
+                            ? (pair[1].startsWith('res') &&
+                                  res !== undefined) ||
+                              (pair[1].startsWith('head') && head !== undefined)
+                            : res !== undefined
                     ) {
-                        scenario.cache.set(pair[0], eval(pair[1]));
+                        scenario.cache.set(
+                            pair[0],
+                            extractVariable(
+                                pair[1],
+                                scenario.cache,
+                                { res, head },
+                                res,
+                                ctx,
+                            ),
+                        );
                     }
                     logDebug(
                         `Setting cache: ${pair[0]} = ${scenario.cache.get(
                             pair[0],
                         )}`,
+                        true,
                     );
                 }
             }
@@ -260,10 +300,17 @@ class RestAction implements Action {
         ): void => {
             if (registeredValidations) {
                 registeredValidations
-                    .filter(v => v.startsWith('head.'))
+                    .filter(
+                        (v): v is string =>
+                            typeof v === 'string' && v.startsWith('head.'),
+                    )
                     .forEach(validation => {
                         try {
-                            const validationResult = eval(validation);
+                            const validationResult = evaluateExpression(
+                                validation,
+                                scenario.cache,
+                                { head },
+                            );
                             if (validationResult) {
                                 logDebug(
                                     `Header validation (${validation}): ${validationResult}`,
@@ -293,14 +340,23 @@ class RestAction implements Action {
         const validateBody = (res: unknown): void => {
             if (registeredValidations) {
                 registeredValidations
-                    .filter(v => v.startsWith('res.'))
+                    .filter(
+                        (v): v is string =>
+                            typeof v === 'string' && v.startsWith('res.'),
+                    )
                     .forEach(validation => {
                         let validationResult;
                         try {
-                            validationResult = eval(validation);
+                            validationResult = evaluateExpression(
+                                validation,
+                                scenario.cache,
+                                { res },
+                            );
                         } catch (e) {
                             logError(e.message);
-                            throw new Error(`Error parsing validation`);
+                            throw new Error(
+                                `Error evaluating the validation (${validation}): ${e.message}`,
+                            );
                         }
                         if (validationResult) {
                             logDebug(
@@ -310,10 +366,33 @@ class RestAction implements Action {
                             logError(
                                 `Body validation (${validation}): ${validationResult}`,
                             );
-                            throw new Error(
-                                `Incoming response body failed validation: (${validation})`,
+                            throw explainFailedExpression(
+                                validation,
+                                scenario.cache,
+                                { res },
+                            ) ??
+                                new Error(
+                                    `Incoming response body failed validation: (${validation})`,
+                                );
+                        }
+                    });
+                registeredValidations
+                    .filter((v): v is Assertion => typeof v !== 'string')
+                    .forEach(assertion => {
+                        const validation = JSON.stringify(assertion);
+                        try {
+                            checkValidation(
+                                assertion,
+                                scenario.cache,
+                                { res },
+                                res,
+                                ctx,
                             );
+                        } catch (e) {
+                            logError(`Body validation (${validation}): ${e}`);
+                            throw e;
                         }
+                        logDebug(`Body validation (${validation}): passed`);
                     });
             }
         };
@@ -357,6 +436,7 @@ class RestAction implements Action {
             return { body: null };
         };
 
+        let pendingRequest: request.RequestPromise | undefined;
         const promise = new Promise((resolve, reject) => {
             const requestHeaders = this.restHead
                 ? injectEvalAndVarsToMap(this.restHead, scenario.cache, ctx)
@@ -392,16 +472,18 @@ class RestAction implements Action {
                 maxAttempts: 3,
                 retryDelay: 1000, // 1s
                 fullResponse: true,
-                ...this.getClientCertificateConfiguration(scenario),
+                ...this.getClientCertificateConfiguration(scenario, runContext),
             };
 
-            request(requestOptions)
+            pendingRequest = request(requestOptions);
+            pendingRequest
                 .then((response: Response) => {
                     logDebug(
                         `Calling:  ${response.request.method} ${response.request.href}`,
                     );
                     logDebug(
                         `          ${JSON.stringify(response.request.headers)}`,
+                        true,
                     );
                     logDebug(
                         `          ${
@@ -409,24 +491,35 @@ class RestAction implements Action {
                                 ? JSON.stringify(requestForm)
                                 : requestBody.body || '-'
                         }`,
+                        true,
                     );
 
                     addRequest(
-                        scenario.name,
+                        runContext,
+                        scenario,
                         targetService,
                         `${response.request.method} ${response.request.path}`,
                         requestBody.bodyForDiagram,
                         this.diagramConfiguration,
                     );
+                    runContext.recordPayload(
+                        scenario.name,
+                        this,
+                        `Request: ${response.request.method} ${response.request.path}`,
+                        requestForm ?? requestBody.bodyForDiagram,
+                        this.diagramConfiguration,
+                    );
 
                     if (expectedStatusCodes.includes(response.statusCode)) {
                         logDebug(
                             `Response: ${response.statusCode} (${response.statusMessage}): ${response.body}`,
+                            true,
                         );
                         logDebug(
                             `Response Headers: ${JSON.stringify(
                                 response.headers,
                             )}`,
+                            true,
                         );
 
                         const head = response.headers;
@@ -442,10 +535,19 @@ class RestAction implements Action {
                                 response.body,
                                 contentType,
                                 ctx,
+                                runContext,
                             );
 
-                            addSuccessfulResponseArrow(
+                            runContext.recordPayload(
                                 scenario.name,
+                                this,
+                                `Response: ${response.statusCode} ${response.statusMessage}`,
+                                parsedResponseBody,
+                                this.diagramConfiguration,
+                            );
+                            addSuccessfulResponseArrow(
+                                runContext,
+                                scenario,
                                 targetService,
                                 `${response.statusMessage} (${response.statusCode})`,
                             );
@@ -453,15 +555,21 @@ class RestAction implements Action {
                             try {
                                 validateBody(parsedResponseBody);
                                 addSuccessfulResponseBody(
-                                    scenario.name,
+                                    runContext,
+                                    scenario,
                                     parsedResponseBody,
                                     this.diagramConfiguration,
                                 );
                             } catch (e) {
                                 addValidationFailureResponseBody(
-                                    scenario.name,
+                                    runContext,
+                                    scenario,
                                     {
                                         errorMsg: e.message,
+                                        diff:
+                                            e instanceof AssertionFailedError
+                                                ? e.diff
+                                                : undefined,
                                         responseBody: parsedResponseBody,
                                     },
                                     this.diagramConfiguration,
@@ -474,7 +582,8 @@ class RestAction implements Action {
                             });
                         } else {
                             addSuccessfulResponse(
-                                scenario.name,
+                                runContext,
+                                scenario,
                                 targetService,
                                 `${response.statusMessage} (${response.statusCode})`,
                                 undefined,
@@ -487,9 +596,17 @@ class RestAction implements Action {
                         logError(
                             `Response: ${response.statusCode} (${response.statusMessage})`,
                         );
-                        logError(`          ${response.body}`);
-                        addFailedResponse(
+                        logError(`          ${response.body}`, true);
+                        runContext.recordPayload(
                             scenario.name,
+                            this,
+                            `Response: ${response.statusCode} ${response.statusMessage}`,
+                            response.body,
+                            this.diagramConfiguration,
+                        );
+                        addFailedResponse(
+                            runContext,
+                            scenario,
                             targetService,
                             `${response.statusMessage} (${response.statusCode})`,
                             response.body,
@@ -504,11 +621,17 @@ class RestAction implements Action {
                 });
         });
 
-        return { promise, cancel: () => console.log('TODO') };
+        return {
+            promise,
+            cancel: () => {
+                if (pendingRequest) pendingRequest.abort();
+            },
+        };
     }
 
     private getClientCertificateConfiguration(
         scenario: Scenario,
+        runContext: RunContext,
     ):
         | {
               cert: Buffer;
@@ -516,7 +639,11 @@ class RestAction implements Action {
               rejectUnauthorized: boolean;
           }
         | {} {
-        const ctx = { scenario: scenario.name, action: this.name };
+        const ctx = {
+            scenario: scenario.name,
+            action: this.name,
+            runContext,
+        };
         try {
             const clientCertificate =
                 this.clientCertificate &&
@@ -540,7 +667,7 @@ class RestAction implements Action {
                 };
             }
         } catch (error) {
-            getLogger(ctx.scenario).error(error.message, ctx);
+            getLogger(ctx.scenario, runContext).error(error.message, ctx);
         }
         return {};
     }
@@ -0,0 +1,181 @@
+import { RecordedPayload, TestResult } from './TestResult';
+import { Action } from './Action';
+import { ActionCallback } from './ActionCallback';
+import { AbortError } from './error/AbortError';
+import { ActionHooks, RunEventEmitter } from './RunEvents';
+import {
+    DiagramConfiguration,
+    formatPayloadForReport,
+} from '../diagramDrawing/diagramDrawing';
+
+export const DEFAULT_OUT_DIR = 'out';
+
+/* only the latest entries are kept per action, e.g. for the HTML report */
+const MAX_LOG_ENTRIES_PER_ACTION = 100;
+
+export interface LogEntry {
+    readonly timestamp: string;
+    readonly level: string;
+    readonly message: string;
+}
+
+/**
+ * Holds all the state belonging to a single run, so that multiple runs can be
+ * executed independently within the same process.
+ */
+export class RunContext {
+    /* directory where logs, diagrams and reports of this run are written to */
+    public readonly outDir: string;
+
+    /* the action results grouped by scenario name */
+    public readonly results: Map<string, TestResult[]> = new Map();
+
+    /* emits the events of this run, e.g. to observe its progress */
+    public readonly events: RunEventEmitter;
+
+    public readonly hooks: ActionHooks;
+
+    /* makes the random values of the expressions reproducible, see `seededRandom` */
+    public readonly seed?: number | string;
+
+    /* set as soon as the run is aborted, e.g. because of a SIGINT */
+    public abortReason?: string;
+
+    private readonly abortListeners: Set<(reason: string) => void> = new Set();
+
+    /* per scenario, since the actions of imported scenarios and flows are shared by the scenarios */
+    private readonly payloads: Map<
+        string,
+        WeakMap<Action, RecordedPayload[]>
+    > = new Map();
+
+    private readonly logEntries: Map<string, LogEntry[]> = new Map();
+
+    public constructor(
+        outDir = DEFAULT_OUT_DIR,
+        events = new RunEventEmitter(),
+        hooks: ActionHooks = {},
+        seed?: number | string,
+    ) {
+        this.outDir = outDir;
+        this.events = events;
+        this.hooks = hooks;
+        this.seed = seed;
+    }
+
+    public get aborted(): boolean {
+        return this.abortReason !== undefined;
+    }
+
+    /**
+     * Aborts the run: all in-flight actions wrapped with {@link abortable} are
+     * cancelled and no further actions or scenarios are started.
+     * @param reason Why the run is aborted, e.g. the received signal
+     */
+    public abort(reason: string): void {
+        if (this.aborted) return;
+        this.abortReason = reason;
+        this.abortListeners.forEach(listener => listener(reason));
+        this.abortListeners.clear();
+    }
+
+    /**
+     * Records a payload exchanged by an invoked action, so that it can be
+     * attached to the action's result.
+     * @param scenario The name of the scenario invoking the action
+     * @param action The invoked action
+     * @param label What the payload is, e.g. 'Request' or 'Response'
+     * @param payload The raw payload
+     * @param diagramConfiguration Which fields of the payload must be hidden
+     */
+    public recordPayload(
+        scenario: string,
+        action: Action,
+        label: string,
+        payload: unknown,
+        diagramConfiguration: DiagramConfiguration = {},
+    ): void {
+        let payloadsOfScenario = this.payloads.get(scenario);
+        if (payloadsOfScenario === undefined) {
+            payloadsOfScenario = new WeakMap();
+            this.payloads.set(scenario, payloadsOfScenario);
+        }
+        const recorded = payloadsOfScenario.get(action) ?? [];
+        recorded.push({
+            label,
+            payload: formatPayloadForReport(payload, diagramConfiguration),
+        });
+        payloadsOfScenario.set(action, recorded);
+    }
+
+    /**
+     * Returns the payloads recorded for the action of the scenario since the
+     * last call, so that repeated invocations of the same action do not share
+     * them.
+     */
+    public takePayloads(scenario: string, action: Action): RecordedPayload[] {
+        const payloadsOfScenario = this.payloads.get(scenario);
+        if (payloadsOfScenario === undefined) return [];
+        const recorded = payloadsOfScenario.get(action) ?? [];
+        payloadsOfScenario.delete(action);
+        return recorded;
+    }
+
+    public recordLogEntry(
+        scenario: string,
+        action: string,
+        entry: LogEntry,
+    ): void {
+        const key = `${scenario}/${action}`;
+        const entries = this.logEntries.get(key) ?? [];
+        entries.push(entry);
+        if (entries.length > MAX_LOG_ENTRIES_PER_ACTION) entries.shift();
+        this.logEntries.set(key, entries);
+    }
+
+    /**
+     * Returns the latest log entries written while the given action of the
+     * scenario was running.
+     */
+    public logEntriesOf(scenario: string, action: string): LogEntry[] {
+        return this.logEntries.get(`${scenario}/${action}`) ?? [];
+    }
+
+    /**
+     * Wraps the callback of an invoked action, so that the action is cancelled
+     * and its promise is rejected with an {@link AbortError} as soon as the run
+     * is aborted.
+     * @param callback The callback of the invoked action
+     */
+    public abortable(callback: ActionCallback): ActionCallback {
+        let listener: (reason: string) => void = () => {};
+        const aborted = new Promise<never>((_, reject) => {
+            listener = reason => {
+                callback.cancel();
+                reject(new AbortError(reason));
+            };
+        });
+        if (this.abortReason !== undefined) {
+            listener(this.abortReason);
+        } else {
+            this.abortListeners.add(listener);
+        }
+
+        const removeListener = (): void => {
+            this.abortListeners.delete(listener);
+        };
+        return {
+            promise: Promise.race([callback.promise, aborted]).then(
+                result => {
+                    removeListener();
+                    return result;
+                },
+                reason => {
+                    removeListener();
+                    throw reason;
+                },
+            ),
+            cancel: () => callback.cancel(),
+        };
+    }
+}
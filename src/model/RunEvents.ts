@@ -0,0 +1,84 @@
+import { EventEmitter } from 'events';
+import { Action } from './Action';
+import { ActionReport, RunReport, ScenarioReport } from './RunReport';
+import { Scenario } from './Scenario';
+
+/**
+ * The events emitted while running scenarios, mapped to their payload.
+ */
+export interface RunEvents {
+    runStart: { readonly scenarios: string[] };
+    scenarioStart: { readonly scenario: string; readonly description: string };
+    actionStart: {
+        readonly scenario: string;
+        readonly action: string;
+        readonly description: string;
+        readonly type: string;
+    };
+    /* emitted for every action result, including the skipped actions */
+    actionEnd: {
+        readonly scenario: string;
+        readonly action: string;
+        readonly result: ActionReport;
+        /* in milliseconds */
+        readonly duration: number;
+    };
+    scenarioEnd: { readonly scenario: string; readonly report: ScenarioReport };
+    runEnd: { readonly report: RunReport };
+}
+
+export type RunEventName = keyof RunEvents;
+
+/**
+ * An EventEmitter restricted to the {@link RunEvents}, e.g. to observe the
+ * progress of a run:
+ *
+ * ```
+ * const events = new RunEventEmitter();
+ * events.on('actionEnd', ({ scenario, action, result }) => ...);
+ * runMultipleScenariosWithConfigAsync(..., { events }, ...);
+ * ```
+ */
+export class RunEventEmitter extends EventEmitter {
+    public on<E extends RunEventName>(
+        event: E,
+        listener: (payload: RunEvents[E]) => void,
+    ): this {
+        return super.on(event, listener);
+    }
+
+    public once<E extends RunEventName>(
+        event: E,
+        listener: (payload: RunEvents[E]) => void,
+    ): this {
+        return super.once(event, listener);
+    }
+
+    public removeListener<E extends RunEventName>(
+        event: E,
+        listener: (payload: RunEvents[E]) => void,
+    ): this {
+        return super.removeListener(event, listener);
+    }
+
+    public emit<E extends RunEventName>(
+        event: E,
+        payload: RunEvents[E],
+    ): boolean {
+        return super.emit(event, payload);
+    }
+}
+
+/**
+ * User-supplied functions invoked around every action. If `beforeAction`
+ * fails, the action is not invoked and considered as failed. Failures of
+ * `afterAction` are only logged.
+ */
+export interface ActionHooks {
+    beforeAction?(scenario: Scenario, action: Action): void | Promise<void>;
+    afterAction?(
+        scenario: Scenario,
+        action: Action,
+        result: ActionReport,
+    ): void | Promise<void>;
+}
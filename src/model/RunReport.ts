@@ -0,0 +1,69 @@
+import { TestResult } from './TestResult';
+
+export type ActionStatus =
+    | 'passed'
+    | 'failed'
+    | 'timedOut'
+    | 'aborted'
+    | 'ignored'
+    | 'skipped';
+
+export interface ActionReport {
+    readonly name: string;
+    readonly description: string;
+    readonly type: string;
+    /* ISO-8601 timestamp of the action's invocation */
+    readonly start: string;
+    /* in milliseconds */
+    readonly duration: number;
+    readonly status: ActionStatus;
+    readonly errorMessage?: string;
+    readonly errorStack?: string;
+    /* the diff of the expected and the actual value of a failed assertion */
+    readonly diff?: string;
+}
+
+export interface ScenarioReport {
+    readonly name: string;
+    readonly description: string;
+    readonly successful: boolean;
+    readonly actions: ActionReport[];
+}
+
+export interface RunReport {
+    readonly successful: boolean;
+    readonly scenarios: ScenarioReport[];
+    /* names of the loaded scenarios which were not run because of the tag filter */
+    readonly filteredOutScenarios: string[];
+    /* TRUE if the run was interrupted, e.g. by a SIGINT or SIGTERM */
+    readonly aborted: boolean;
+    /* set if the run could not be started (e.g. because of an invalid configuration) or its reports could not be written */
+    readonly error?: string;
+}
+
+export function toActionReport(result: TestResult): ActionReport {
+    return {
+        name: result.actionName,
+        description: result.action,
+        type: result.actionType,
+        start: result.start.toISOString(),
+        duration: result.duration,
+        status: result.status,
+        errorMessage: result.errorMessage,
+        errorStack: result.errorStack,
+        diff: result.diff,
+    };
+}
+
+export function toScenarioReport(
+    name: string,
+    description: string,
+    results: TestResult[],
+): ScenarioReport {
+    return {
+        name,
+        description,
+        successful: !results.some(result => result.isConsideredFailure()),
+        actions: results.map(toActionReport),
+    };
+}
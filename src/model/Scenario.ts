@@ -1,14 +1,61 @@
 import { Action } from './Action';
 import { getLogger, LoggingContext } from '../logging';
-import { RestAction } from './RestAction';
-import { ActionType } from './ActionType';
-import { TimerAction } from './TimerAction';
-import { WebSocketAction } from './WebSocketAction';
-import { MqttAction } from './MqttAction';
-import { MqttPublishAction } from './MqttPublishAction';
-import { AMQPListenAction } from './AMQPListenAction';
-import { NodeJSAction } from './NodeJSAction';
+import { actionTypeName } from './ActionType';
 import { injectEvalAndVarsToString } from '../variableInjection';
+import { RunContext } from './RunContext';
+import { seededRandom, useRandomSource } from '../dataGeneration';
+import { findActionType } from '../actionTypeRegistry';
+import { ParallelGroup, StepOptions } from './StepOptions';
+import { AwaitAction, AwaitStepDefinition } from './AwaitAction';
+import { PollingAction } from './PollingAction';
+import { StepPolling } from './StepPolling';
+import { Flow } from './Flow';
+import { FlowAction, FlowStepDefinition } from './FlowAction';
+
+/* the properties of a (validated) scenario step defining how it is invoked */
+interface StepOptionsDefinition {
+    readonly if?: string;
+    readonly unless?: string;
+    readonly repeat?: number | string;
+    readonly forEach?: string;
+    readonly background?: boolean;
+    readonly id?: string;
+    readonly until?: StepPolling;
+}
+
+/* the properties of a (validated) scenario step besides the overridden ones of its action */
+interface StepDefinition extends StepOptionsDefinition {
+    readonly name: string;
+}
+
+type FlowStep = FlowStepDefinition & StepOptionsDefinition;
+
+/* a (validated) `parallel` block of a scenario */
+interface ParallelBlockDefinition {
+    readonly parallel: StepDefinition[];
+    readonly race?: boolean;
+}
+
+function stepOptionsOf(
+    stepDef: StepOptionsDefinition,
+    group?: ParallelGroup,
+): StepOptions {
+    const hasCondition =
+        stepDef.if !== undefined || stepDef.unless !== undefined;
+    const hasLoop =
+        stepDef.repeat !== undefined || stepDef.forEach !== undefined;
+    return {
+        condition: hasCondition
+            ? { if: stepDef.if, unless: stepDef.unless }
+            : undefined,
+        loop: hasLoop
+            ? { repeat: stepDef.repeat, forEach: stepDef.forEach }
+            : undefined,
+        background: stepDef.background,
+        id: stepDef.id,
+        group,
+    };
+}
 
 class Scenario {
     /* retrieved from the file name */
@@ -17,121 +64,162 @@ class Scenario {
     /* retrieved from the YAML definition */
     public description: string;
 
+    public tags: string[];
+
+    /* all actions not finished after this duration are cancelled */
+    public timeoutInSec?: number;
+
     public actions: Action[] = [];
 
+    /* the conditions, loops, etc. of the steps */
+    public stepOptions = new Map<Action, StepOptions>();
+
     /* internal vars */
     public cache: Map<string, unknown>;
 
+    /* the steps with an `id` running in the background, see `AwaitAction` */
+    public runningSteps = new Map<string, Promise<unknown>>();
+
     public constructor(
         fileName: string,
         yamlConfig: any,
         actionConfig: Action[],
         imports: Scenario[],
+        runContext?: RunContext,
+        flows: Flow[] = [],
     ) {
         this.name = fileName;
 
         this.description = yamlConfig.description;
 
+        this.timeoutInSec = yamlConfig.timeoutInSec;
+
+        this.tags = yamlConfig.tags
+            ? [].concat(yamlConfig.tags).map(String)
+            : [];
+
+        // the actions of the imported scenarios in the order of their names
+        const addActionsOf = (scenarioNames: string | string[] = []): void =>
+            ([] as string[]).concat(scenarioNames).forEach(scenarioName =>
+                imports
+                    .filter(i => i.name === scenarioName)
+                    .forEach(s =>
+                        s.actions.forEach(a => {
+                            this.actions.push(a);
+                            const options = s.stepOptions.get(a);
+                            if (options) this.stepOptions.set(a, options);
+                        }),
+                    ),
+            );
+
         // before
-        if (yamlConfig.before) {
-            imports
-                .filter(i => i.name === yamlConfig.before)
-                .forEach(s => s.actions.forEach(a => this.actions.push(a)));
-        }
+        addActionsOf(yamlConfig.before);
 
-        // main
-        yamlConfig.actions.forEach((actionDef: any) => {
+        const addAction = (
+            actionDef: StepDefinition,
+            group?: ParallelGroup,
+        ): void => {
             const actionTemplate = actionConfig.find(
                 c => c.name === actionDef.name,
             );
             if (actionTemplate) {
-                switch (actionTemplate.type) {
-                    case ActionType.REST:
-                        this.actions.push(
-                            RestAction.fromTemplate(
-                                actionDef,
-                                actionTemplate as RestAction,
-                            ),
-                        );
-                        break;
-                    case ActionType.TIMER:
-                        this.actions.push(
-                            TimerAction.fromTemplate(
-                                actionDef,
-                                actionTemplate as TimerAction,
-                            ),
-                        );
-                        break;
-                    case ActionType.WEBSOCKET:
-                        this.actions.push(
-                            WebSocketAction.fromTemplate(
-                                actionDef,
-                                actionTemplate as WebSocketAction,
-                            ),
-                        );
-                        break;
-                    case ActionType.MQTT:
-                        this.actions.push(
-                            MqttAction.fromTemplate(
-                                actionDef,
-                                actionTemplate as MqttAction,
-                            ),
-                        );
-                        break;
-                    case ActionType.MQTT_PUBLISH:
-                        this.actions.push(
-                            MqttPublishAction.fromTemplate(
-                                actionDef,
-                                actionTemplate as MqttPublishAction,
-                            ),
-                        );
-                        break;
-                    case ActionType.AMQP_LISTEN:
-                        this.actions.push(
-                            AMQPListenAction.fromTemplate(
-                                actionDef,
-                                actionTemplate as AMQPListenAction,
-                            ),
-                        );
-                        break;
-                    case ActionType.NODE_JS:
-                        this.actions.push(
-                            NodeJSAction.fromTemplate(
-                                actionDef,
-                                actionTemplate as NodeJSAction,
-                            ),
-                        );
-                        break;
-                    default:
-                        getLogger(this.name).error(
-                            `Action template ${actionTemplate.name} is of unknown type ${actionTemplate.type}`,
-                        );
+                const type = actionTypeName(actionTemplate.type);
+                const actionType = findActionType(type);
+                if (actionType) {
+                    const templateAction = actionType.fromTemplate(
+                        actionDef,
+                        actionTemplate,
+                    );
+                    const action = actionDef.until
+                        ? new PollingAction(templateAction, actionDef.until)
+                        : templateAction;
+                    this.actions.push(action);
+                    this.stepOptions.set(
+                        action,
+                        stepOptionsOf(actionDef, group),
+                    );
+                    if (group) group.actions.push(action);
+                } else {
+                    getLogger(this.name, runContext).error(
+                        `Action template ${actionTemplate.name} is of unknown type ${type}`,
+                    );
                 }
             } else {
                 getLogger(
                     this.name,
+                    runContext,
                 ).error(
                     `Could not find any Action definition for: ${actionDef.name}`,
                     { scenario: this.name },
                 );
             }
-        });
+        };
+
+        const addFlowAction = (stepDef: FlowStep): void => {
+            const flow = flows.find(f => f.name === stepDef.flow);
+            if (flow) {
+                const flowAction = new FlowAction(flow, stepDef);
+                const action = stepDef.until
+                    ? new PollingAction(flowAction, stepDef.until)
+                    : flowAction;
+                this.actions.push(action);
+                this.stepOptions.set(action, stepOptionsOf(stepDef));
+            } else {
+                getLogger(
+                    this.name,
+                    runContext,
+                ).error(
+                    `Could not find any flow definition for: ${stepDef.flow}`,
+                    { scenario: this.name },
+                );
+            }
+        };
+
+        // main
+        yamlConfig.actions.forEach(
+            (
+                stepDef:
+                    | StepDefinition
+                    | ParallelBlockDefinition
+                    | AwaitStepDefinition
+                    | FlowStep,
+            ) => {
+                if ('flow' in stepDef) {
+                    addFlowAction(stepDef);
+                } else if ('await' in stepDef) {
+                    this.actions.push(new AwaitAction(stepDef));
+                } else if ('parallel' in stepDef) {
+                    const group: ParallelGroup = {
+                        actions: [],
+                        race: stepDef.race === true,
+                    };
+                    stepDef.parallel.forEach(actionDef =>
+                        addAction(actionDef, group),
+                    );
+                } else {
+                    addAction(stepDef);
+                }
+            },
+        );
 
         // after
-        if (yamlConfig.after) {
-            imports
-                .filter(i => i.name === yamlConfig.after)
-                .forEach(s => s.actions.forEach(a => this.actions.push(a)));
-        }
+        addActionsOf(yamlConfig.after);
 
         this.cache = new Map<string, unknown>();
 
+        // every scenario has its own generator, so the random values do not depend on the order the scenarios are run in
+        if (runContext?.seed !== undefined) {
+            useRandomSource(
+                this.cache,
+                seededRandom(`${runContext.seed}:${this.name}`),
+            );
+        }
+
         if (yamlConfig.variables) {
-            const ctx: LoggingContext = { scenario: this.name };
-            const scenarioVariables = new Map<string, unknown>(
-                yamlConfig.variables
-                    ? Object.entries(yamlConfig.variables)
-                    : [],
+            const ctx: LoggingContext = { scenario: this.name, runContext };
+            const scenarioVariables = this.cache;
+            Object.entries(yamlConfig.variables).forEach(([key, val]) =>
+                scenarioVariables.set(key, val),
             );
 
             scenarioVariables.forEach((val, key) => {
@@ -144,8 +232,6 @@ class Scenario {
                     ),
                 );
             });
-
-            this.cache = scenarioVariables;
         }
     }
 }
@@ -0,0 +1,19 @@
+import { ActionStatus } from './RunReport';
+
+/* the conditions of a scenario step, both are evaluated against the scenario's variables */
+export interface StepCondition {
+    /* the step is skipped unless this expression is truthy */
+    readonly if?: string;
+    /* the step is skipped if this expression is truthy */
+    readonly unless?: string;
+}
+
+/* the outcome of the previously finished action, available as `previous` in the conditions */
+export interface PreviousOutcome {
+    readonly name: string;
+    readonly status: ActionStatus;
+    readonly passed: boolean;
+    /* TRUE if the action was invoked, but did not pass (even if its failure is allowed) */
+    readonly failed: boolean;
+    readonly skipped: boolean;
+}
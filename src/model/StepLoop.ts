@@ -0,0 +1,13 @@
+/* how often a scenario step is invoked, the current iteration is available as `{{index}}` (and `{{item}}`) */
+export interface StepLoop {
+    /* the number of iterations, either a number or an expression like `{{count}}` */
+    readonly repeat?: number | string;
+    /* the name of the variable containing the list to be iterated, each element is available as `{{item}}` */
+    readonly forEach?: string;
+}
+
+export interface Iteration {
+    readonly item: unknown;
+    /* starting at 0 */
+    readonly index: number;
+}
@@ -0,0 +1,22 @@
+import { Action } from './Action';
+import { StepCondition } from './StepCondition';
+import { StepLoop } from './StepLoop';
+
+/* the actions of a `parallel` block of a scenario, invoked concurrently */
+export interface ParallelGroup {
+    readonly actions: Action[];
+    /* TRUE if the group finishes with its first finished action, the others are cancelled */
+    readonly race: boolean;
+}
+
+/* how a step of a scenario is invoked in addition to its action's definition */
+export interface StepOptions {
+    readonly condition?: StepCondition;
+    readonly loop?: StepLoop;
+    /* overrides whether actions of the type are run in the background */
+    readonly background?: boolean;
+    /* identifies the step, so that it can be awaited by an `await` step */
+    readonly id?: string;
+    /* set if the step is part of a `parallel` block */
+    readonly group?: ParallelGroup;
+}
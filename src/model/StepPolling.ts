@@ -0,0 +1,11 @@
+/* how a scenario step is re-invoked until it passes, see `until` */
+export interface StepPolling {
+    /* no further attempt is started after this duration */
+    readonly deadlineInSec: number;
+    /* the time between the first and the second attempt, 1 second by default */
+    readonly intervalInSec?: number;
+    /* the interval is multiplied by this factor after every attempt, 1 (a constant interval) by default */
+    readonly backoffFactor?: number;
+    /* the interval does not grow beyond this duration */
+    readonly maxIntervalInSec?: number;
+}
@@ -1,26 +1,111 @@
+import { ActionStatus } from './RunReport';
+
+/* a request, response or message payload exchanged by an action */
+export interface RecordedPayload {
+    readonly label: string;
+    /* already formatted, i.e. with the hidden fields masked */
+    readonly payload: string;
+}
+
+interface TestResultDefinition {
+    action: string;
+    actionName?: string;
+    actionType?: string;
+    start?: Date;
+    duration: number;
+    successful: boolean;
+    allowFailure: boolean;
+    skipped?: boolean;
+    timedOut?: boolean;
+    aborted?: boolean;
+    errorMessage?: string;
+    errorStack?: string;
+    diff?: string;
+    payloads?: RecordedPayload[];
+}
+
 class TestResult {
+    /* the action's description */
     public action: string;
 
-    public duration: string;
+    public actionName: string;
+
+    public actionType: string;
+
+    public start: Date;
+
+    /* in milliseconds */
+    public duration: number;
 
     public successful: boolean;
 
     public allowFailure: boolean;
 
-    public constructor(
-        action: string,
-        duration: string,
-        successful: boolean,
-        allowFailure: boolean,
-    ) {
+    /* TRUE if the action was not invoked at all */
+    public skipped: boolean;
+
+    /* TRUE if the action was cancelled because of its or the scenario's timeout */
+    public timedOut: boolean;
+
+    /* TRUE if the action was cancelled or not invoked because the run was aborted */
+    public aborted: boolean;
+
+    public errorMessage?: string;
+
+    public errorStack?: string;
+
+    /* the diff of the expected and the actual value of a failed assertion */
+    public diff?: string;
+
+    public payloads: RecordedPayload[];
+
+    public constructor({
+        action,
+        actionName = action,
+        actionType = 'unknown',
+        start = new Date(),
+        duration,
+        successful,
+        allowFailure,
+        skipped = false,
+        timedOut = false,
+        aborted = false,
+        errorMessage,
+        errorStack,
+        diff,
+        payloads = [],
+    }: TestResultDefinition) {
         this.action = action;
+        this.actionName = actionName;
+        this.actionType = actionType;
+        this.start = start;
         this.duration = duration;
         this.successful = successful;
         this.allowFailure = allowFailure;
+        this.skipped = skipped;
+        this.timedOut = timedOut;
+        this.aborted = aborted;
+        this.errorMessage = errorMessage;
+        this.errorStack = errorStack;
+        this.diff = diff;
+        this.payloads = payloads;
+    }
+
+    public get status(): ActionStatus {
+        if (this.aborted) return 'aborted';
+        if (this.skipped) return 'skipped';
+        if (this.successful) return 'passed';
+        if (this.allowFailure) return 'ignored';
+        return this.timedOut ? 'timedOut' : 'failed';
     }
 
     public isConsideredFailure(): boolean {
-        return this.successful === false && this.allowFailure !== true;
+        return (
+            this.aborted ||
+            (this.successful === false &&
+                this.allowFailure !== true &&
+                !this.skipped)
+        );
     }
 }
 
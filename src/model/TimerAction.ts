@@ -1,5 +1,6 @@
 import { Action } from './Action';
 import { Scenario } from './Scenario';
+import { RunContext } from './RunContext';
 import { ActionType } from './ActionType';
 import { getLogger } from '../logging';
 import { ActionCallback } from './ActionCallback';
@@ -18,6 +19,8 @@ class TimerAction implements Action {
 
     public allowFailure = false;
 
+    public timeoutInSec?: number;
+
     public constructor(
         name: string,
         desc = name,
@@ -25,12 +28,14 @@ class TimerAction implements Action {
         duration = timerDefinition.durationInSec,
         invokeEvenOnFail = timerDefinition.invokeEvenOnFail,
         allowFailure = timerDefinition.allowFailure,
+        timeoutInSec = timerDefinition.timeoutInSec,
     ) {
         this.name = name;
         this.duration = duration;
         this.description = desc;
         this.invokeEvenOnFail = invokeEvenOnFail;
         this.allowFailure = allowFailure;
+        this.timeoutInSec = timeoutInSec;
     }
 
     public static fromTemplate(
@@ -43,24 +48,36 @@ class TimerAction implements Action {
             timerDefinition,
             timerDefinition.durationInSec || template.duration,
             timerDefinition.invokeEvenOnFail || template.invokeEvenOnFail,
+            timerDefinition.allowFailure ?? template.allowFailure,
+            timerDefinition.timeoutInSec ?? template.timeoutInSec,
         );
     }
 
-    public invoke(scenario: Scenario): ActionCallback {
-        const ctx = { scenario: scenario.name, action: this.name };
+    public invoke(scenario: Scenario, runContext: RunContext): ActionCallback {
+        const ctx = {
+            scenario: scenario.name,
+            action: this.name,
+            runContext,
+        };
 
+        let timer: NodeJS.Timeout | undefined;
         const promise = new Promise(resolve => {
-            setTimeout(() => {
-                getLogger(ctx.scenario).debug(
+            timer = setTimeout(() => {
+                getLogger(ctx.scenario, runContext).debug(
                     `Waited for ${this.duration} seconds!`,
                     ctx,
                 );
-                addDelay(scenario.name, this.duration);
+                addDelay(runContext, scenario, this.duration);
                 resolve('Success');
             }, this.duration * 1000);
         });
 
-        return { promise, cancel: () => console.log('TODO') };
+        return {
+            promise,
+            cancel: () => {
+                if (timer) clearTimeout(timer);
+            },
+        };
     }
 }
 
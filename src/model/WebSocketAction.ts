@@ -1,8 +1,9 @@
 import { stringify } from 'querystring';
-import { runInNewContext } from 'vm';
 import * as WebSocket from 'ws';
 import { DiagramConfiguration } from '../diagramDrawing/diagramDrawing';
 import { addWsMessage } from '../diagramDrawing/ws';
+import { checkMessage } from '../assertions';
+import { evaluateExpression } from '../expressionEvaluation';
 import { getLogger } from '../logging';
 import {
     injectEvalAndVarsToMap,
@@ -11,7 +12,9 @@ import {
 import { Action, ActionDefinition } from './Action';
 import { ActionCallback } from './ActionCallback';
 import { ActionType } from './ActionType';
+import { ValidationDefinition, VariableDefinition } from './Assertion';
 import { Scenario } from './Scenario';
+import { RunContext } from './RunContext';
 
 const MAX_RECONNECTIONS = 3;
 
@@ -25,6 +28,9 @@ export interface WebSocketActionDefinition extends ActionDefinition {
     readonly data?: any;
     readonly expectedNumberOfMessages: number;
     readonly messageFilter?: string[];
+    readonly stopOnExpectedMessages?: boolean;
+    readonly messageValidation?: ValidationDefinition[];
+    readonly variables?: { [name: string]: VariableDefinition };
     readonly diagramConfiguration?: DiagramConfiguration;
 }
 
@@ -46,6 +52,8 @@ class WebSocketAction implements Action {
 
     public allowFailure = false;
 
+    public timeoutInSec?: number;
+
     private reconnected = 0;
 
     private serviceName: string;
@@ -60,6 +68,16 @@ class WebSocketAction implements Action {
 
     private messageFilter: string[];
 
+    /* TRUE if the connection is closed as soon as the expected number of messages is received */
+    private stopOnExpectedMessages: boolean;
+
+    private messageValidation?: ValidationDefinition[];
+
+    private variables?: { [name: string]: VariableDefinition };
+
+    /* why the first invalid message failed its validation */
+    private messageFailure?: Error;
+
     private readonly diagramConfiguration: DiagramConfiguration;
 
     private receivedMessages: Set<string>;
@@ -79,6 +97,10 @@ class WebSocketAction implements Action {
         invokeEvenOnFail = !!actionDef.invokeEvenOnFail,
         allowFailure = !!actionDef.allowFailure,
         diagramConfiguration = actionDef.diagramConfiguration ?? {},
+        timeoutInSec = actionDef.timeoutInSec,
+        stopOnExpectedMessages = !!actionDef.stopOnExpectedMessages,
+        messageValidation = actionDef.messageValidation,
+        variables = actionDef.variables,
     ) {
         this.name = name;
         this.serviceName = serviceName;
@@ -91,6 +113,10 @@ class WebSocketAction implements Action {
         this.invokeEvenOnFail = invokeEvenOnFail;
         this.allowFailure = allowFailure;
         this.diagramConfiguration = diagramConfiguration;
+        this.timeoutInSec = timeoutInSec;
+        this.stopOnExpectedMessages = stopOnExpectedMessages;
+        this.messageValidation = messageValidation;
+        this.variables = variables;
 
         this.receivedMessages = new Set<string>();
     }
@@ -118,6 +144,15 @@ class WebSocketAction implements Action {
             wsDefinition.invokeEvenOnFail ?? template.invokeEvenOnFail,
             wsDefinition.allowFailure ?? template.allowFailure,
             wsDefinition.diagramConfiguration ?? template.diagramConfiguration,
+            wsDefinition.timeoutInSec ?? template.timeoutInSec,
+            wsDefinition.stopOnExpectedMessages ??
+                template.stopOnExpectedMessages,
+            template.messageValidation
+                ? template.messageValidation.concat(
+                      wsDefinition.messageValidation ?? [],
+                  )
+                : wsDefinition.messageValidation,
+            { ...template.variables, ...wsDefinition.variables },
         );
     }
 
@@ -133,9 +168,9 @@ class WebSocketAction implements Action {
         return actionDef.data;
     }
 
-    public invoke(scenario: Scenario): ActionCallback {
+    public invoke(scenario: Scenario, runContext: RunContext): ActionCallback {
         const promise = new Promise((resolve, reject) => {
-            this.invokeAsync(scenario, resolve, reject);
+            this.invokeAsync(scenario, runContext, resolve, reject);
         });
 
         return {
@@ -146,10 +181,15 @@ class WebSocketAction implements Action {
 
     private invokeAsync(
         scenario: Scenario,
+        runContext: RunContext,
         resolve: (value?: unknown) => void,
         reject: (reason?: unknown) => void,
     ): void {
-        const ctx = { scenario: scenario.name, action: this.name };
+        const ctx = {
+            scenario: scenario.name,
+            action: this.name,
+            runContext,
+        };
         const resolvedUrl = injectEvalAndVarsToString(
             this.url,
             scenario.cache,
@@ -162,12 +202,15 @@ class WebSocketAction implements Action {
         );
         const registeredMessageFilters = this.messageFilter;
 
-        const logDebug = (debugMessage: string): void => {
-            getLogger(scenario.name).debug(debugMessage, ctx);
+        const logDebug = (debugMessage: string, payload = false): void => {
+            getLogger(scenario.name, runContext).debug(debugMessage, {
+                ...ctx,
+                payload,
+            });
         };
 
         const logError = (errorMessage: string): void => {
-            getLogger(scenario.name).error(errorMessage, ctx);
+            getLogger(scenario.name, runContext).error(errorMessage, ctx);
         };
 
         const isMessageRelevant = (msg: unknown): boolean => {
@@ -178,9 +221,11 @@ class WebSocketAction implements Action {
                         scenario.cache,
                         ctx,
                     ).toString();
-                    const filterResult = !!runInNewContext(expandedFilter, {
-                        msg,
-                    });
+                    const filterResult = !!evaluateExpression(
+                        expandedFilter,
+                        scenario.cache,
+                        { msg },
+                    );
                     logDebug(`Filter (${expandedFilter}): ${filterResult}`);
                     return filterResult;
                 });
@@ -198,7 +243,7 @@ class WebSocketAction implements Action {
             if (this.data && this.reconnected === 0) {
                 const payload = JSON.stringify(this.data);
                 this.wsInstance.send(payload);
-                logDebug(`WS message sent: ${payload}`);
+                logDebug(`WS message sent: ${payload}`, true);
             }
         });
 
@@ -209,13 +254,43 @@ class WebSocketAction implements Action {
                 this.receivedMessages.add(dataString);
                 logDebug(
                     `Relevant WS message received (${this.receivedMessages.size}/${this.expectedNumberOfMessages}): ${data}`,
+                    true,
                 );
                 addWsMessage(
-                    scenario.name,
+                    runContext,
+                    scenario,
                     this.serviceName,
                     parsedMessage,
                     this.diagramConfiguration,
                 );
+                runContext.recordPayload(
+                    scenario.name,
+                    this,
+                    'Received message',
+                    parsedMessage,
+                    this.diagramConfiguration,
+                );
+                try {
+                    checkMessage(
+                        parsedMessage,
+                        {
+                            messageValidation: this.messageValidation,
+                            variables: this.variables,
+                        },
+                        scenario.cache,
+                        ctx,
+                    );
+                } catch (e) {
+                    logError(`Invalid WS message: ${e.message}`);
+                    this.messageFailure = this.messageFailure ?? e;
+                }
+                if (
+                    this.stopOnExpectedMessages &&
+                    this.receivedMessages.size === this.expectedNumberOfMessages
+                ) {
+                    logDebug('Expected number of messages received');
+                    this.wsInstance.close();
+                }
             }
         });
 
@@ -223,10 +298,12 @@ class WebSocketAction implements Action {
             if (closeCode === 1006 && this.reconnected <= MAX_RECONNECTIONS) {
                 logDebug('reconnecting...');
                 this.reconnected++;
-                this.invokeAsync(scenario, resolve, reject);
+                this.invokeAsync(scenario, runContext, resolve, reject);
             } else {
                 logDebug(`Successfully closed WS connection: ${closeCode}`);
-                if (
+                if (this.messageFailure) {
+                    reject(this.messageFailure);
+                } else if (
                     this.receivedMessages.size !== this.expectedNumberOfMessages
                 ) {
                     logError(
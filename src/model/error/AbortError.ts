@@ -0,0 +1,8 @@
+export class AbortError extends Error {
+    constructor(reason: string) {
+        super(reason);
+        // https://github.com/Microsoft/TypeScript-wiki/blob/master/Breaking-Changes.md#extending-built-ins-like-error-array-and-map-may-no-longer-work
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = AbortError.name;
+    }
+}
@@ -0,0 +1,26 @@
+import { DiffLine, diffJson } from '../../jsonDiff';
+
+const format = (value: unknown): string => JSON.stringify(value) ?? 'undefined';
+
+export class AssertionFailedError extends Error {
+    readonly expected: unknown;
+
+    readonly actual: unknown;
+
+    /* the lines of the expected and the actual value (as JSON) */
+    readonly diff: DiffLine[];
+
+    constructor(subject: string, expected: unknown, actual: unknown) {
+        super(
+            `${subject}: expected ${format(expected)}, but was ${format(
+                actual,
+            )}`,
+        );
+        // https://github.com/Microsoft/TypeScript-wiki/blob/master/Breaking-Changes.md#extending-built-ins-like-error-array-and-map-may-no-longer-work
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = AssertionFailedError.name;
+        this.expected = expected;
+        this.actual = actual;
+        this.diff = diffJson(expected, actual);
+    }
+}
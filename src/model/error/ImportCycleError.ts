@@ -0,0 +1,12 @@
+export class ImportCycleError extends Error {
+    /* the names of the scenarios importing each other, e.g. `['s1', 's2', 's1']` */
+    readonly cycle: string[];
+
+    constructor(cycle: string[]) {
+        super(`Cyclic scenario import: ${cycle.join(' -> ')}`);
+        // https://github.com/Microsoft/TypeScript-wiki/blob/master/Breaking-Changes.md#extending-built-ins-like-error-array-and-map-may-no-longer-work
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = ImportCycleError.name;
+        this.cycle = cycle;
+    }
+}
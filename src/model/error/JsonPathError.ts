@@ -0,0 +1,8 @@
+export class JsonPathError extends Error {
+    constructor(path: string, reason: string) {
+        super(`JSONPath '${path}' ${reason}`);
+        // https://github.com/Microsoft/TypeScript-wiki/blob/master/Breaking-Changes.md#extending-built-ins-like-error-array-and-map-may-no-longer-work
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = JsonPathError.name;
+    }
+}
@@ -0,0 +1,13 @@
+export class PollingDeadlineError extends Error {
+    readonly attempts: number;
+
+    constructor(attempts: number, deadlineInSec: number, lastError: string) {
+        super(
+            `Did not pass within ${deadlineInSec} seconds (${attempts} attempts), the last attempt failed with: ${lastError}`,
+        );
+        // https://github.com/Microsoft/TypeScript-wiki/blob/master/Breaking-Changes.md#extending-built-ins-like-error-array-and-map-may-no-longer-work
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = PollingDeadlineError.name;
+        this.attempts = attempts;
+    }
+}
@@ -0,0 +1,8 @@
+export class RaceLostError extends Error {
+    constructor(winner: string) {
+        super(`Cancelled because '${winner}' finished the race first`);
+        // https://github.com/Microsoft/TypeScript-wiki/blob/master/Breaking-Changes.md#extending-built-ins-like-error-array-and-map-may-no-longer-work
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = RaceLostError.name;
+    }
+}
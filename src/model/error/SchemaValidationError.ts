@@ -0,0 +1,16 @@
+export class SchemaValidationError extends Error {
+    /* one message per violation, each naming the file and the property path */
+    readonly errors: string[];
+
+    constructor(errors: string[]) {
+        super(
+            `Invalid action or scenario definition(s):\n${errors
+                .map(error => `  - ${error}`)
+                .join('\n')}`,
+        );
+        // https://github.com/Microsoft/TypeScript-wiki/blob/master/Breaking-Changes.md#extending-built-ins-like-error-array-and-map-may-no-longer-work
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = SchemaValidationError.name;
+        this.errors = errors;
+    }
+}
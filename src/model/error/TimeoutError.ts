@@ -0,0 +1,8 @@
+export class TimeoutError extends Error {
+    constructor(timeoutInSec: number, subject = 'Action') {
+        super(`${subject} timed out after ${timeoutInSec} seconds`);
+        // https://github.com/Microsoft/TypeScript-wiki/blob/master/Breaking-Changes.md#extending-built-ins-like-error-array-and-map-may-no-longer-work
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = TimeoutError.name;
+    }
+}
@@ -0,0 +1,208 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { RunContext } from '../model/RunContext';
+import { ActionStatus, RunReport, ScenarioReport } from '../model/RunReport';
+import { TestResult } from '../model/TestResult';
+import { escapeXml } from './junitReport';
+
+const HTML_REPORT_FILE_NAME = 'report.html';
+
+const STATUS_COLORS: { [status in ActionStatus]: string } = {
+    passed: '#2e7d32',
+    failed: '#c62828',
+    timedOut: '#c62828',
+    aborted: '#6a1b9a',
+    ignored: '#ef6c00',
+    skipped: '#757575',
+};
+
+// everything is inlined, so that the report can be opened offline and sent around as a single file
+const STYLE = `
+body { font-family: sans-serif; margin: 2em; color: #212121; }
+table { border-collapse: collapse; margin-bottom: 1em; }
+th, td { border: 1px solid #e0e0e0; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f5f5f5; }
+.status { color: #fff; border-radius: 3px; padding: 1px 6px; font-size: 0.85em; font-weight: bold; }
+details { margin: 4px 0; }
+summary { cursor: pointer; }
+pre { background: #fafafa; border: 1px solid #e0e0e0; padding: 8px; overflow: auto; max-height: 30em; }
+.error { color: #c62828; }
+img { max-width: 100%; }
+`;
+
+function formatDuration(durationInMs: number): string {
+    return `${durationInMs.toFixed(2)} ms`;
+}
+
+function statusBadge(status: ActionStatus | 'successful'): string {
+    const color =
+        status === 'successful' ? STATUS_COLORS.passed : STATUS_COLORS[status];
+    return `<span class="status" style="background: ${color}">${status}</span>`;
+}
+
+function scenarioAnchor(scenario: string): string {
+    return `scenario-${encodeURIComponent(scenario)}`;
+}
+
+function generateOverview(scenarios: ScenarioReport[]): string {
+    const rows = scenarios.map(scenario => {
+        const duration = scenario.actions.reduce(
+            (sum, action) => sum + action.duration,
+            0,
+        );
+        const passed = scenario.actions.filter(a => a.status === 'passed')
+            .length;
+        return `<tr><td><a href="#${escapeXml(
+            scenarioAnchor(scenario.name),
+        )}">${escapeXml(scenario.name)}</a></td><td>${escapeXml(
+            scenario.description,
+        )}</td><td>${statusBadge(
+            scenario.successful ? 'successful' : 'failed',
+        )}</td><td>${passed}/${
+            scenario.actions.length
+        }</td><td>${formatDuration(duration)}</td></tr>`;
+    });
+    return [
+        '<table>',
+        '<tr><th>Scenario</th><th>Description</th><th>Status</th><th>Passed actions</th><th>Duration</th></tr>',
+        ...rows,
+        '</table>',
+    ].join('\n');
+}
+
+function generateLogExcerpt(
+    runContext: RunContext,
+    scenario: string,
+    result: TestResult,
+): string {
+    const entries = runContext.logEntriesOf(scenario, result.actionName);
+    if (entries.length === 0) return '';
+    const lines = entries.map(
+        entry =>
+            `${entry.timestamp} ${entry.level.toUpperCase()} ${entry.message}`,
+    );
+    return `<details><summary>Log</summary><pre>${escapeXml(
+        lines.join('\n'),
+    )}</pre></details>`;
+}
+
+function generateAction(
+    runContext: RunContext,
+    scenario: string,
+    result: TestResult,
+): string {
+    const details: string[] = [];
+    if (result.errorMessage !== undefined) {
+        details.push(
+            `<pre class="error">${escapeXml(
+                result.errorStack ?? result.errorMessage,
+            )}</pre>`,
+        );
+    }
+    if (result.diff !== undefined) {
+        details.push(
+            `<details open><summary>Diff</summary><pre>${escapeXml(
+                result.diff,
+            )}</pre></details>`,
+        );
+    }
+    result.payloads.forEach(({ label, payload }) =>
+        details.push(
+            `<details><summary>${escapeXml(label)}</summary><pre>${escapeXml(
+                payload,
+            )}</pre></details>`,
+        ),
+    );
+    if (!result.successful && !result.skipped) {
+        details.push(generateLogExcerpt(runContext, scenario, result));
+    }
+
+    const cells = `<td>${statusBadge(result.status)}</td><td>${escapeXml(
+        result.action,
+    )}</td><td>${escapeXml(result.actionType)}</td><td>${escapeXml(
+        result.start.toISOString(),
+    )}</td><td>${formatDuration(result.duration)}</td>`;
+    const detailsCell = details.some(detail => detail !== '')
+        ? `<td><details><summary>Details</summary>${details.join(
+              '',
+          )}</details></td>`
+        : '<td></td>';
+    return `<tr>${cells}${detailsCell}</tr>`;
+}
+
+function generateDiagram(runContext: RunContext, scenario: string): string {
+    const diagramFile = `${runContext.outDir}/_${scenario}.png`;
+    if (!existsSync(diagramFile)) return '';
+    const image = readFileSync(diagramFile).toString('base64');
+    return `<details><summary>Sequence diagram</summary><img alt="Sequence diagram of ${escapeXml(
+        scenario,
+    )}" src="data:image/png;base64,${image}"></details>`;
+}
+
+function generateScenario(
+    runContext: RunContext,
+    scenario: ScenarioReport,
+): string {
+    const results = runContext.results.get(scenario.name) ?? [];
+    return [
+        `<section id="${escapeXml(scenarioAnchor(scenario.name))}">`,
+        `<h2>${escapeXml(scenario.name)} ${statusBadge(
+            scenario.successful ? 'successful' : 'failed',
+        )}</h2>`,
+        `<p>${escapeXml(scenario.description)}</p>`,
+        '<table>',
+        '<tr><th>Status</th><th>Action</th><th>Type</th><th>Start</th><th>Duration</th><th></th></tr>',
+        ...results.map(result =>
+            generateAction(runContext, scenario.name, result),
+        ),
+        '</table>',
+        generateDiagram(runContext, scenario.name),
+        '</section>',
+    ].join('\n');
+}
+
+/**
+ * Generates a self-contained HTML document showing an overview of all
+ * scenarios followed by their actions. Payloads, the log of failed actions and
+ * the sequence diagrams (if drawn) are embedded, so that the document does not
+ * reference any external file.
+ * @param report The report of the finished run
+ * @param runContext The context of the run containing the action results
+ */
+export function generateHtmlReport(
+    report: RunReport,
+    runContext: RunContext,
+): string {
+    const summary = `${report.scenarios.length} scenario(s), ${
+        report.scenarios.filter(s => !s.successful).length
+    } failed${report.aborted ? ', the run was aborted' : ''}`;
+    return [
+        '<!DOCTYPE html>',
+        '<html>',
+        '<head>',
+        '<meta charset="utf-8">',
+        '<title>Test report</title>',
+        `<style>${STYLE}</style>`,
+        '</head>',
+        '<body>',
+        `<h1>Test report ${statusBadge(
+            report.successful ? 'successful' : 'failed',
+        )}</h1>`,
+        `<p>${escapeXml(summary)}</p>`,
+        generateOverview(report.scenarios),
+        ...report.scenarios.map(scenario =>
+            generateScenario(runContext, scenario),
+        ),
+        '</body>',
+        '</html>',
+        '',
+    ].join('\n');
+}
+
+export function writeHtmlReport(
+    report: RunReport,
+    runContext: RunContext,
+): string {
+    const reportFile = `${runContext.outDir}/${HTML_REPORT_FILE_NAME}`;
+    writeFileSync(reportFile, generateHtmlReport(report, runContext));
+    return reportFile;
+}
@@ -0,0 +1,102 @@
+import { writeFileSync } from 'fs';
+import { TestResult } from '../model/TestResult';
+
+const JUNIT_REPORT_FILE_NAME = 'junit.xml';
+
+/* the colors of the console, e.g. of a diff */
+// eslint-disable-next-line no-control-regex
+const ANSI_COLOR_CODES = /\u001b\[[0-9;]*m/g;
+
+/* the control characters XML 1.0 does not allow, even escaped */
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARACTERS = /[\x00-\x08\x0B\x0C\x0E-\x1F]/g;
+
+/* escapes the text and strips the characters XML does not allow, e.g. of a binary payload */
+export function escapeXml(text: string): string {
+    return text
+        .replace(ANSI_COLOR_CODES, '')
+        .replace(INVALID_XML_CHARACTERS, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function toSeconds(durationInMs: number): string {
+    return (durationInMs / 1000).toFixed(3);
+}
+
+function generateTestCase(scenario: string, result: TestResult): string {
+    const attributes = `name="${escapeXml(
+        result.action,
+    )}" classname="${escapeXml(scenario)}" time="${toSeconds(
+        result.duration,
+    )}"`;
+
+    if (result.successful) {
+        return `    <testcase ${attributes}/>`;
+    }
+    if (result.skipped) {
+        return `    <testcase ${attributes}>\n      <skipped message="${escapeXml(
+            result.errorMessage ?? 'Skipped after a previous failure',
+        )}"/>\n    </testcase>`;
+    }
+    const message = escapeXml(result.errorMessage ?? 'Action failed');
+    if (result.allowFailure && !result.aborted) {
+        return `    <testcase ${attributes}>\n      <skipped message="${message}"/>\n    </testcase>`;
+    }
+    let type = '';
+    if (result.aborted) type = ' type="aborted"';
+    else if (result.timedOut) type = ' type="timeout"';
+    return `    <testcase ${attributes}>\n      <failure message="${message}"${type}>${message}</failure>\n    </testcase>`;
+}
+
+function generateTestSuite(scenario: string, results: TestResult[]): string {
+    const failures = results.filter(r => r.isConsideredFailure()).length;
+    const skipped = results.filter(
+        r => r.status === 'ignored' || r.status === 'skipped',
+    ).length;
+    const time = results.reduce((sum, r) => sum + r.duration, 0);
+
+    return [
+        `  <testsuite name="${escapeXml(scenario)}" tests="${
+            results.length
+        }" failures="${failures}" skipped="${skipped}" time="${toSeconds(
+            time,
+        )}">`,
+        ...results.map(result => generateTestCase(scenario, result)),
+        '  </testsuite>',
+    ].join('\n');
+}
+
+/**
+ * Generates a JUnit XML document containing one `<testsuite>` per scenario and
+ * one `<testcase>` per action result. Failed actions which are allowed to fail
+ * are reported as skipped.
+ * @param results The action results grouped by scenario name
+ */
+export function generateJUnitReport(
+    results: Map<string, TestResult[]>,
+): string {
+    const suites: string[] = [];
+    results.forEach((scenarioResults, scenario) =>
+        suites.push(generateTestSuite(scenario, scenarioResults)),
+    );
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<testsuites>',
+        ...suites,
+        '</testsuites>',
+        '',
+    ].join('\n');
+}
+
+export function writeJUnitReport(
+    results: Map<string, TestResult[]>,
+    outDir: string,
+): string {
+    const reportFile = `${outDir}/${JUNIT_REPORT_FILE_NAME}`;
+    writeFileSync(reportFile, generateJUnitReport(results));
+    return reportFile;
+}
@@ -5,152 +5,533 @@ import { getLogger } from './logging';
 import { Action } from './model/Action';
 import { Scenario } from './model/Scenario';
 import { loadYamlConfiguration, nameFromYamlConfig } from './yamlParsing';
+import { RunContext } from './model/RunContext';
+import { parseTagExpression } from './tagExpression';
+import { validateAgainstSchema } from './schemaValidation';
+import {
+    AWAIT_STEP_SCHEMA,
+    FLOW_SCHEMA,
+    FLOW_STEP_SCHEMA,
+    PARALLEL_BLOCK_SCHEMA,
+    SCENARIO_SCHEMA,
+    STEP_SCHEMA,
+} from './schemas/scenarioSchema';
+import { STEP_OPTION_PROPERTIES, stepSchemaOf } from './schemas/actionSchemas';
+import { actionTypeName } from './model/ActionType';
+import { findActionType } from './actionTypeRegistry';
+import { SchemaValidationError } from './model/error/SchemaValidationError';
+import { ImportCycleError } from './model/error/ImportCycleError';
+import { Flow, FlowSignature, requiredParametersOf } from './model/Flow';
 
+export interface TagFilter {
+    /* only scenarios whose tags match this expression are selected */
+    includeTags?: string;
+    /* scenarios whose tags match this expression are filtered out */
+    excludeTags?: string;
+}
+
+export interface FilteredScenarios {
+    selected: Scenario[];
+    filteredOut: Scenario[];
+}
+
+interface ScenarioFile {
+    readonly name: string;
+    readonly file: string;
+    readonly definition: any;
+}
+
+/**
+ * Loads the scenarios of the directory whose names start with the name of the
+ * given file, only they and the scenarios they import are validated.
+ * @throws SchemaValidationError if one of them does not match the schema
+ * @throws ImportCycleError if scenarios import each other
+ */
 export const loadScenariosById = (
     path: string,
     actionCatalog: Action[],
+    runContext?: RunContext,
+    importDir?: string,
+    flows: Flow[] = [],
 ): Scenario[] => {
-    const resultList: Scenario[] = [];
     const scenarioFileName = path.split('/').pop() as string; // casting to string is safe because splitting a string results in an array with length >= 1
     const scenarioName = scenarioFileName.replace('.yaml', '');
 
-    loadAllScenarios(path.substring(0, path.lastIndexOf('/')), actionCatalog)
-        .filter(s => s.name.startsWith(scenarioName))
-        .forEach(s => resultList.push(s));
+    const resultList = loadScenarios(
+        path.substring(0, path.lastIndexOf('/')),
+        name => name.startsWith(scenarioName),
+        actionCatalog,
+        runContext,
+        importDir,
+        flows,
+    );
 
     if (resultList.length > 0) {
         return resultList;
     }
-    getLogger().error(`Scenario '${scenarioName}' not found in the directory!`);
-    return process.exit(1);
+    throw new Error(`Scenario '${scenarioName}' not found in the directory!`);
 };
 
+/* a step of a scenario file, not validated yet */
+type UnvalidatedStep = { [property: string]: unknown } | undefined;
+
+/* validates a step against the schema of the referenced action's type */
+function validateStep(
+    step: UnvalidatedStep,
+    file: string,
+    path: string,
+    actionCatalog: Pick<Action, 'name' | 'type'>[],
+): string[] {
+    const stepErrors = validateAgainstSchema(STEP_SCHEMA, step, file, path);
+    const template = actionCatalog.find(a => a.name === step?.name);
+    const schema =
+        template && findActionType(actionTypeName(template.type))?.schema;
+    if (schema) {
+        stepErrors.push(
+            ...validateAgainstSchema(stepSchemaOf(schema), step, file, path),
+        );
+    }
+    return stepErrors;
+}
+
+/* checks the arguments of a step invoking a flow, unknown flows are reported like unknown actions */
+function validateFlowArguments(
+    step: { [property: string]: unknown },
+    file: string,
+    path: string,
+    flows: FlowSignature[],
+): string[] {
+    const flow = flows.find(f => f.name === step.flow);
+    // invalid arguments are already reported by the schema
+    if (flow === undefined || (step.with ?? {}) !== Object(step.with ?? {})) {
+        return [];
+    }
+    const args = (step.with ?? {}) as { [name: string]: unknown };
+    return [
+        ...Object.keys(args)
+            .filter(name => !(name in flow.parameters))
+            .map(
+                name =>
+                    `${file}: '${path}.with.${name}' is not a parameter of the flow '${flow.name}'`,
+            ),
+        ...requiredParametersOf(flow)
+            .filter(name => !(name in args))
+            .map(
+                name =>
+                    `${file}: '${path}.with' is missing the parameter '${name}' of the flow '${flow.name}'`,
+            ),
+    ];
+}
+
+/**
+ * Validates the scenario against the scenario schema and each of its steps
+ * against the schema of the referenced action's type. Every `await` step has
+ * to reference the unique `id` of a previous step and every flow step has to
+ * pass the parameters of its flow.
+ * @returns One message per violation
+ */
+export function validateScenarioDefinition(
+    scenarioDef: unknown,
+    file: string,
+    actionCatalog: Pick<Action, 'name' | 'type'>[],
+    flows: FlowSignature[] = [],
+): string[] {
+    const errors = validateAgainstSchema(SCENARIO_SCHEMA, scenarioDef, file);
+    const { actions } = scenarioDef as { actions?: unknown };
+    if (!Array.isArray(actions)) return errors;
+
+    const stepIds = new Set<unknown>();
+    const validateStepId = (step: UnvalidatedStep, path: string): string[] => {
+        if (step?.id === undefined) return [];
+        const alreadyUsed = stepIds.has(step.id);
+        stepIds.add(step.id);
+        return alreadyUsed
+            ? [`${file}: '${path}.id' is already used by a previous step`]
+            : [];
+    };
+    actions.forEach((step, index) => {
+        const path = `actions[${index}]`;
+        if (step?.flow !== undefined) {
+            errors.push(
+                ...validateAgainstSchema(FLOW_STEP_SCHEMA, step, file, path),
+                ...validateStepId(step, path),
+                ...validateFlowArguments(step, file, path, flows),
+            );
+            return;
+        }
+        if (step?.await !== undefined) {
+            errors.push(
+                ...validateAgainstSchema(AWAIT_STEP_SCHEMA, step, file, path),
+            );
+            if (typeof step.await === 'string' && !stepIds.has(step.await)) {
+                errors.push(
+                    `${file}: '${path}.await' references no previous step with the id '${step.await}'`,
+                );
+            }
+            return;
+        }
+        if (step?.parallel === undefined) {
+            errors.push(
+                ...validateStepId(step, path),
+                ...validateStep(step, file, path, actionCatalog),
+            );
+            return;
+        }
+        errors.push(
+            ...validateAgainstSchema(PARALLEL_BLOCK_SCHEMA, step, file, path),
+        );
+        if (!Array.isArray(step.parallel)) return;
+        step.parallel.forEach(
+            (parallelStep: UnvalidatedStep, parallelIndex: number) => {
+                const parallelPath = `${path}.parallel[${parallelIndex}]`;
+                errors.push(
+                    ...validateStepId(parallelStep, parallelPath),
+                    ...validateStep(
+                        parallelStep,
+                        file,
+                        parallelPath,
+                        actionCatalog,
+                    ),
+                );
+                ['repeat', 'forEach'].forEach(property => {
+                    if (parallelStep?.[property] !== undefined) {
+                        // the iterations would share `{{item}}` and `{{index}}` with the concurrent steps
+                        errors.push(
+                            `${file}: '${parallelPath}.${property}' is not supported in a parallel block`,
+                        );
+                    }
+                });
+            },
+        );
+    });
+    return errors;
+}
+
+/* the step properties which are handled by the scenario, not by the flow */
+const PROPERTIES_UNSUPPORTED_IN_FLOWS = [
+    'parallel',
+    'await',
+    'flow',
+    ...Object.keys(STEP_OPTION_PROPERTIES).filter(
+        property => property !== 'until',
+    ),
+];
+
+/**
+ * Validates the flow against the flow schema and each of its steps against the
+ * schema of the referenced action's type. The steps of a flow are invoked one
+ * after another, so they cannot be invoked conditionally, repeatedly, in
+ * parallel or in the background.
+ * @returns One message per violation
+ */
+export function validateFlowDefinition(
+    flowDef: unknown,
+    file: string,
+    actionCatalog: Pick<Action, 'name' | 'type'>[],
+): string[] {
+    const errors = validateAgainstSchema(FLOW_SCHEMA, flowDef, file);
+    const { actions } = flowDef as { actions?: unknown };
+    if (!Array.isArray(actions)) return errors;
+
+    actions.forEach((step: UnvalidatedStep, index) => {
+        const path = `actions[${index}]`;
+        const unsupported = PROPERTIES_UNSUPPORTED_IN_FLOWS.filter(
+            property => step?.[property] !== undefined,
+        );
+        if (unsupported.length > 0) {
+            errors.push(
+                ...unsupported.map(
+                    property =>
+                        `${file}: '${path}.${property}' is not supported in a flow`,
+                ),
+            );
+        } else {
+            errors.push(...validateStep(step, file, path, actionCatalog));
+        }
+    });
+    return errors;
+}
+
+/**
+ * Searches the imports of the scenario, their imports and so on for a cycle.
+ * @param name The name of the scenario
+ * @param importsOf Returns the names of the scenarios imported by a scenario
+ * @returns The names of the scenarios forming the first cycle found, e.g.
+ * `['s2', 's3', 's2']`, or `undefined` if there is none
+ */
+export function findImportCycle(
+    name: string,
+    importsOf: (scenarioName: string) => string[],
+): string[] | undefined {
+    const completed = new Set<string>();
+    const visit = (path: string[]): string[] | undefined => {
+        const current = path[path.length - 1];
+        let cycle: string[] | undefined;
+        importsOf(current).some(imported => {
+            if (path.includes(imported)) {
+                cycle = [...path.slice(path.indexOf(imported)), imported];
+            } else if (!completed.has(imported)) {
+                cycle = visit([...path, imported]);
+            }
+            return cycle !== undefined;
+        });
+        completed.add(current);
+        return cycle;
+    };
+    return visit([name]);
+}
+
+/* the paths of the YAML files of the directory by the name of their scenario */
+const scenarioPathsOf = (dir: string): Map<string, string> =>
+    new Map(
+        readdirSync(dir)
+            .filter(file => file.endsWith('.yaml'))
+            .map((file): [string, string] => [
+                nameFromYamlConfig(file),
+                `${dir}/${file}`,
+            ]),
+    );
+
+/* the names of the scenarios imported by a scenario file, not validated yet */
+const importedNamesOf = ({ definition }: ScenarioFile): string[] =>
+    Array.isArray(definition.import)
+        ? definition.import.filter(
+              (name: unknown): name is string => typeof name === 'string',
+          )
+        : [];
+
+/**
+ * Loads all scenarios from the YAML files of the directory. The imported
+ * scenarios are resolved independently of the order of the files and may
+ * import other scenarios themselves.
+ * @param path The directory containing the scenarios
+ * @param actionCatalog The action templates referenced by the scenarios
+ * @param runContext The context of the run
+ * @param importDir A directory containing scenarios which can be imported,
+ * but are not loaded to be run themselves
+ * @param flows The flows which can be invoked by the scenarios
+ * @throws SchemaValidationError listing the violations of the scenarios of
+ * the directory and the ones they import if at least one of them does not
+ * match the schema
+ * @throws ImportCycleError if scenarios import each other
+ */
 export const loadAllScenarios = (
     path: string,
     actionCatalog: Action[],
-): Scenario[] => {
+    runContext?: RunContext,
+    importDir?: string,
+    flows: Flow[] = [],
+): Scenario[] =>
+    loadScenarios(
+        path,
+        () => true,
+        actionCatalog,
+        runContext,
+        importDir,
+        flows,
+    );
+
+/*
+ * Loads the selected scenarios of the directory. Only the files of the
+ * selected scenarios and of the scenarios they import (directly or not) are
+ * read and validated.
+ */
+function loadScenarios(
+    path: string,
+    isSelected: (name: string) => boolean,
+    actionCatalog: Action[],
+    runContext?: RunContext,
+    importDir?: string,
+    flows: Flow[] = [],
+): Scenario[] {
     const loadedScenarios: Scenario[] = [];
+    const scenarioPaths = scenarioPathsOf(path);
 
-    readdirSync(`${path}`).forEach(file => {
-        const scenarioDef = loadYamlConfiguration(`${path}/${file}`);
-        if (scenarioDef) {
-            // get imports
-            const scenarioImports: Scenario[] = [];
-            if (scenarioDef.import) {
-                const scenarioNamesToBeImported: string[] = scenarioDef.import;
-                if (
-                    scenarioNamesToBeImported.every(
-                        i => loadedScenarios.findIndex(s => s.name === i) >= 0,
-                    )
-                ) {
-                    loadedScenarios
-                        .filter(s => scenarioNamesToBeImported.includes(s.name))
-                        .forEach(s => scenarioImports.push(s));
-                } else {
-                    getLogger(nameFromYamlConfig(file)).error(
-                        `One of the imports (${scenarioNamesToBeImported}) are missing or were not loaded prior to this one!`,
+    // the scenarios of the directory take precedence over the shared ones
+    const importablePaths = importDir
+        ? scenarioPathsOf(importDir)
+        : new Map<string, string>();
+    scenarioPaths.forEach((file, name) => importablePaths.set(name, file));
+
+    const readFiles = new Map<string, ScenarioFile | undefined>();
+    const scenarioFileOf = (name: string): ScenarioFile | undefined => {
+        if (!readFiles.has(name)) {
+            const file = importablePaths.get(name);
+            const definition =
+                file !== undefined
+                    ? loadYamlConfiguration(file, runContext)
+                    : undefined;
+            readFiles.set(
+                name,
+                file !== undefined && definition
+                    ? { name, file, definition }
+                    : undefined,
+            );
+        }
+        return readFiles.get(name);
+    };
+
+    const scenarioFiles = Array.from(scenarioPaths.keys())
+        .filter(isSelected)
+        .map(scenarioFileOf)
+        .filter((file): file is ScenarioFile => !!file);
+
+    // the selected scenarios and all scenarios imported by them
+    const requiredFiles = [...scenarioFiles];
+    for (let i = 0; i < requiredFiles.length; i++) {
+        importedNamesOf(requiredFiles[i])
+            .map(scenarioFileOf)
+            .forEach(imported => {
+                if (imported && !requiredFiles.includes(imported)) {
+                    requiredFiles.push(imported);
+                }
+            });
+    }
+    const schemaErrors = ([] as string[]).concat(
+        ...requiredFiles.map(({ definition, file }) =>
+            validateScenarioDefinition(definition, file, actionCatalog, flows),
+        ),
+    );
+    if (schemaErrors.length > 0) {
+        throw new SchemaValidationError(schemaErrors);
+    }
+
+    const importsOf = (name: string): string[] =>
+        scenarioFileOf(name)?.definition.import ?? [];
+
+    scenarioFiles.forEach(({ name }) => {
+        const cycle = findImportCycle(name, importsOf);
+        if (cycle) throw new ImportCycleError(cycle);
+    });
+
+    // every imported scenario is created once, including its own imports
+    const importedScenarios = new Map<string, Scenario>();
+    const importedScenarioOf = (scenarioFile: ScenarioFile): Scenario => {
+        let scenario = importedScenarios.get(scenarioFile.name);
+        if (scenario === undefined) {
+            scenario = new Scenario(
+                scenarioFile.name,
+                scenarioFile.definition,
+                actionCatalog,
+                importsOfScenario(scenarioFile),
+                runContext,
+                flows,
+            );
+            importedScenarios.set(scenarioFile.name, scenario);
+        }
+        return scenario;
+    };
+    const importsOfScenario = ({
+        name,
+        definition,
+    }: ScenarioFile): Scenario[] =>
+        ((definition.import ?? []) as string[])
+            .map(importedName => {
+                const imported = scenarioFileOf(importedName);
+                if (imported === undefined) {
+                    getLogger(name, runContext).error(
+                        `The imported scenario '${importedName}' does not exist`,
                     );
                 }
-            }
-            // split into multiple scenario instances
-            if (scenarioDef.loadFactor) {
-                for (let i = 0; i < scenarioDef.loadFactor; i++) {
-                    const scenarioNameWithIdx = `${nameFromYamlConfig(
-                        file,
-                    )}-${i}`;
-                    const ctx = { scenario: scenarioNameWithIdx };
+                return imported;
+            })
+            .filter((imported): imported is ScenarioFile => !!imported)
+            .map(importedScenarioOf);
+
+    scenarioFiles.forEach(scenarioFile => {
+        const { name, definition: scenarioDef } = scenarioFile;
+        // split into multiple scenario instances
+        if (scenarioDef.loadFactor) {
+            const scenarioImports = importsOfScenario(scenarioFile);
+            for (let i = 0; i < scenarioDef.loadFactor; i++) {
+                const scenarioNameWithIdx = `${name}-${i}`;
+                const ctx = { scenario: scenarioNameWithIdx, runContext };
 
-                    const actionCatalogWithReplacedLoadVariables: Action[] = JSON.parse(
-                        JSON.stringify(actionCatalog),
+                const actionCatalogWithReplacedLoadVariables: Action[] = JSON.parse(
+                    JSON.stringify(actionCatalog),
+                );
+
+                // inject loadVariables[_i] into the action definitions
+                if (scenarioDef.loadVariables) {
+                    const currentLoadVariables = getLoadVariableTreeForLoadIdx(
+                        scenarioDef.loadVariables,
+                        i,
                     );
+                    for (const current of Object.entries(
+                        currentLoadVariables,
+                    )) {
+                        const currentLoad = current[1];
 
-                    // inject loadVariables[_i] into the action definitions
-                    if (scenarioDef.loadVariables) {
-                        const currentLoadVariables = getLoadVariableTreeForLoadIdx(
-                            scenarioDef.loadVariables,
-                            i,
+                        const actionToBeReplaced: any = actionCatalogWithReplacedLoadVariables.find(
+                            a => a.name === (currentLoad as any).name,
                         );
-                        for (const current of Object.entries(
-                            currentLoadVariables,
-                        )) {
-                            const currentLoad = current[1];
-
-                            const actionToBeReplaced: any = actionCatalogWithReplacedLoadVariables.find(
-                                a => a.name === (currentLoad as any).name,
-                            );
-                            if (
-                                actionToBeReplaced &&
-                                typeof currentLoad === 'object' &&
-                                currentLoad
-                            ) {
-                                for (const key of Object.keys(currentLoad)) {
-                                    if (key !== 'name') {
-                                        if (
-                                            actionToBeReplaced[key] &&
-                                            typeof actionToBeReplaced[key] ===
-                                                'object'
-                                        ) {
-                                            getLogger(
-                                                scenarioNameWithIdx,
-                                            ).debug(
-                                                `Replacing "${stringify(
-                                                    actionToBeReplaced[key],
-                                                )}" with "${stringify(
-                                                    currentLoad[key],
-                                                )}" for key "${key}"`,
-                                                Object.assign(ctx, {
-                                                    action:
-                                                        actionToBeReplaced.name,
-                                                }),
-                                            );
-                                            Object.assign(
+                        if (
+                            actionToBeReplaced &&
+                            typeof currentLoad === 'object' &&
+                            currentLoad
+                        ) {
+                            for (const key of Object.keys(currentLoad)) {
+                                if (key !== 'name') {
+                                    if (
+                                        actionToBeReplaced[key] &&
+                                        typeof actionToBeReplaced[key] ===
+                                            'object'
+                                    ) {
+                                        getLogger(
+                                            scenarioNameWithIdx,
+                                            runContext,
+                                        ).debug(
+                                            `Replacing "${stringify(
                                                 actionToBeReplaced[key],
+                                            )}" with "${stringify(
                                                 currentLoad[key],
-                                            );
-                                        } else if (actionToBeReplaced[key]) {
-                                            getLogger(
-                                                scenarioNameWithIdx,
-                                            ).debug(
-                                                `Replacing "${actionToBeReplaced[key]}" with "${currentLoad[key]}" for key "${key}"`,
-                                                Object.assign(ctx, {
-                                                    action:
-                                                        actionToBeReplaced.name,
-                                                }),
-                                            );
-                                            actionToBeReplaced[key] =
-                                                currentLoad[key];
-                                        }
+                                            )}" for key "${key}"`,
+                                            Object.assign(ctx, {
+                                                action: actionToBeReplaced.name,
+                                            }),
+                                        );
+                                        Object.assign(
+                                            actionToBeReplaced[key],
+                                            currentLoad[key],
+                                        );
+                                    } else if (actionToBeReplaced[key]) {
+                                        getLogger(
+                                            scenarioNameWithIdx,
+                                            runContext,
+                                        ).debug(
+                                            `Replacing "${actionToBeReplaced[key]}" with "${currentLoad[key]}" for key "${key}"`,
+                                            Object.assign(ctx, {
+                                                action: actionToBeReplaced.name,
+                                            }),
+                                        );
+                                        actionToBeReplaced[key] =
+                                            currentLoad[key];
                                     }
                                 }
                             }
                         }
                     }
-
-                    loadedScenarios.push(
-                        new Scenario(
-                            scenarioNameWithIdx,
-                            scenarioDef,
-                            actionCatalogWithReplacedLoadVariables,
-                            scenarioImports,
-                        ),
-                    );
                 }
-            } else {
-                // just one instance of the scenario
+
                 loadedScenarios.push(
                     new Scenario(
-                        nameFromYamlConfig(file),
+                        scenarioNameWithIdx,
                         scenarioDef,
-                        actionCatalog,
+                        actionCatalogWithReplacedLoadVariables,
                         scenarioImports,
+                        runContext,
+                        flows,
                     ),
                 );
             }
+        } else {
+            // just one instance of the scenario, shared with the scenarios importing it
+            loadedScenarios.push(importedScenarioOf(scenarioFile));
         }
     });
 
     return loadedScenarios;
-};
+}
 
 function getLoadVariableTreeForLoadIdx(rootObject: any, idx: number): any {
     const res = {};
@@ -204,3 +585,25 @@ function getLoadVariableTreeForLoadIdx(rootObject: any, idx: number): any {
     }
     return res;
 }
+
+/**
+ * Splits the given scenarios into the ones matching the tag filter and the
+ * ones being filtered out, e.g. `{ includeTags: 'smoke && !slow' }`.
+ * @throws TagExpressionError if one of the expressions is not well-formed
+ */
+export const filterScenariosByTags = (
+    scenarios: Scenario[],
+    { includeTags, excludeTags }: TagFilter,
+): FilteredScenarios => {
+    const include = includeTags ? parseTagExpression(includeTags) : undefined;
+    const exclude = excludeTags ? parseTagExpression(excludeTags) : undefined;
+    const result: FilteredScenarios = { selected: [], filteredOut: [] };
+
+    scenarios.forEach(scenario => {
+        const isSelected =
+            (!include || include(scenario.tags)) &&
+            !(exclude && exclude(scenario.tags));
+        (isSelected ? result.selected : result.filteredOut).push(scenario);
+    });
+    return result;
+};
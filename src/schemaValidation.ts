@@ -0,0 +1,63 @@
+import * as Ajv from 'ajv';
+import * as DRAFT_06_META_SCHEMA from 'ajv/lib/refs/json-schema-draft-06.json';
+import { JsonSchema } from './schemas/actionSchemas';
+
+const ajv = new Ajv({ allErrors: true });
+// draft-06 is still supported for the schemas of registered action types
+ajv.addMetaSchema(DRAFT_06_META_SCHEMA);
+
+const validators = new WeakMap<JsonSchema, Ajv.ValidateFunction>();
+
+function validatorOf(schema: JsonSchema): Ajv.ValidateFunction {
+    let validator = validators.get(schema);
+    if (validator === undefined) {
+        validator = ajv.compile(schema);
+        validators.set(schema, validator);
+    }
+    return validator;
+}
+
+function formatError(
+    file: string,
+    pathPrefix: string,
+    error: Ajv.ErrorObject,
+): string {
+    let path = `${pathPrefix}${error.dataPath}`;
+    let message = error.message ?? 'is invalid';
+    if (error.keyword === 'additionalProperties') {
+        path += `.${
+            (error.params as Ajv.AdditionalPropertiesParams).additionalProperty
+        }`;
+        message = 'is not a known property';
+    } else if (error.keyword === 'enum') {
+        message += `: ${(error.params as Ajv.EnumParams).allowedValues.join(
+            ', ',
+        )}`;
+    }
+    path = path.replace(/^\./, '');
+    return path === ''
+        ? `${file}: ${message}`
+        : `${file}: '${path}' ${message}`;
+}
+
+/**
+ * Validates the (parsed YAML) definition against the JSON Schema.
+ * @param schema The JSON Schema
+ * @param definition The definition to be validated
+ * @param file The file containing the definition, used in the messages
+ * @param pathPrefix The path of the definition within the file, e.g. `actions[0]`
+ * @returns One message per violation (empty if the definition is valid), e.g.
+ * `actions/create-user.yaml: 'expectedStatusCode' is not a known property`
+ */
+export function validateAgainstSchema(
+    schema: JsonSchema,
+    definition: unknown,
+    file: string,
+    pathPrefix = '',
+): string[] {
+    const validate = validatorOf(schema);
+    if (validate(definition)) return [];
+    return (validate.errors ?? []).map(error =>
+        formatError(file, pathPrefix, error),
+    );
+}
@@ -0,0 +1,90 @@
+/*
+ * JSON Schemas (draft-07) of the built-in action types, shipped as the
+ * `*-action.schema.json` files of this directory, e.g. to be used by an
+ * editor. Every schema describes the YAML file of an action template; the
+ * steps of a scenario overriding the template are validated against the same
+ * schema without the required properties (see `stepSchemaOf`).
+ */
+import * as actionSchema from './action.schema.json';
+import * as amqpListenActionSchema from './amqp-listen-action.schema.json';
+import * as mqttActionSchema from './mqtt-action.schema.json';
+import * as mqttPublishActionSchema from './mqtt-publish-action.schema.json';
+import * as nodeJsActionSchema from './node-js-action.schema.json';
+import * as restActionSchema from './rest-action.schema.json';
+import * as timerActionSchema from './timer-action.schema.json';
+import * as websocketActionSchema from './websocket-action.schema.json';
+
+export type JsonSchema = { [keyword: string]: unknown };
+
+/* validates the common properties only, the type specific schema is chosen by the `type` */
+export const ACTION_DEFINITION_SCHEMA: JsonSchema = actionSchema;
+
+/* the properties every action type supports */
+export const COMMON_ACTION_PROPERTIES: JsonSchema = actionSchema.properties;
+
+export const REST_ACTION_SCHEMA: JsonSchema = restActionSchema;
+
+export const TIMER_ACTION_SCHEMA: JsonSchema = timerActionSchema;
+
+export const WEBSOCKET_ACTION_SCHEMA: JsonSchema = websocketActionSchema;
+
+export const MQTT_ACTION_SCHEMA: JsonSchema = mqttActionSchema;
+
+export const MQTT_PUBLISH_ACTION_SCHEMA: JsonSchema = mqttPublishActionSchema;
+
+export const AMQP_LISTEN_ACTION_SCHEMA: JsonSchema = amqpListenActionSchema;
+
+export const NODE_JS_ACTION_SCHEMA: JsonSchema = nodeJsActionSchema;
+
+/* re-invokes a step until it passes, see `StepPolling` */
+const STEP_POLLING: JsonSchema = {
+    type: 'object',
+    properties: {
+        deadlineInSec: { type: 'number', exclusiveMinimum: 0 },
+        intervalInSec: { type: 'number', minimum: 0 },
+        backoffFactor: { type: 'number', minimum: 1 },
+        maxIntervalInSec: { type: 'number', minimum: 0 },
+    },
+    required: ['deadlineInSec'],
+    additionalProperties: false,
+};
+
+/* how a step is invoked besides the properties of its action, see `stepSchemaOf` */
+export const STEP_OPTION_PROPERTIES: JsonSchema = {
+    if: { type: 'string' },
+    unless: { type: 'string' },
+    repeat: { type: ['integer', 'string'], minimum: 0 },
+    forEach: { type: 'string' },
+    background: { type: 'boolean' },
+    id: { type: 'string' },
+    until: STEP_POLLING,
+};
+
+/* derived once per schema, so that the validators compiled for them are reused */
+const stepSchemas = new WeakMap<JsonSchema, JsonSchema>();
+
+/**
+ * Derives the schema of a scenario step from the schema of its action type:
+ * a step references the template by `name` and may override any of its
+ * properties, but does not have to repeat the required ones. Besides, a step
+ * may be invoked conditionally (`if`/`unless`), repeatedly (`repeat`/`forEach`),
+ * `until` it passes or in the `background` and be identified by an `id` to
+ * `await` it.
+ */
+export function stepSchemaOf(schema: JsonSchema): JsonSchema {
+    let stepSchema = stepSchemas.get(schema);
+    if (stepSchema === undefined) {
+        stepSchema = {
+            ...schema,
+            title: `${schema.title} step`,
+            properties: {
+                ...(schema.properties as JsonSchema),
+                name: { type: 'string' },
+                ...STEP_OPTION_PROPERTIES,
+            },
+        };
+        delete stepSchema.required;
+        stepSchemas.set(schema, stepSchema);
+    }
+    return stepSchema;
+}
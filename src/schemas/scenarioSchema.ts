@@ -0,0 +1,64 @@
+import {
+    COMMON_ACTION_PROPERTIES,
+    JsonSchema,
+    STEP_OPTION_PROPERTIES,
+} from './actionSchemas';
+import * as flowSchema from './flow.schema.json';
+import * as scenarioSchema from './scenario.schema.json';
+
+/* the step properties are validated against the schema of the referenced action's type */
+export const STEP_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: { name: { type: 'string' } },
+    required: ['name'],
+};
+
+/* a group of steps invoked concurrently, each of them is validated like any other step */
+export const PARALLEL_BLOCK_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        parallel: { type: 'array', items: { type: 'object' }, minItems: 1 },
+        race: { type: 'boolean' },
+    },
+    required: ['parallel'],
+    additionalProperties: false,
+};
+
+/* a step waiting for the step with the given `id` invoked in the background */
+export const AWAIT_STEP_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        await: { type: 'string' },
+        description: { type: 'string' },
+        invokeEvenOnFail: { type: 'boolean' },
+        allowFailure: { type: 'boolean' },
+        timeoutInSec: { type: 'number', exclusiveMinimum: 0 },
+    },
+    required: ['await'],
+    additionalProperties: false,
+};
+
+/* a step invoking a flow, the arguments are checked against the flow's parameters */
+export const FLOW_STEP_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        flow: { type: 'string' },
+        with: { type: 'object' },
+        description: { type: 'string' },
+        invokeEvenOnFail: { type: 'boolean' },
+        allowFailure: { type: 'boolean' },
+        timeoutInSec: COMMON_ACTION_PROPERTIES.timeoutInSec,
+        ...STEP_OPTION_PROPERTIES,
+    },
+    required: ['flow'],
+    additionalProperties: false,
+};
+
+/* JSON Schema (draft-07) of the scenario YAML files, shipped as `scenario.schema.json` */
+export const SCENARIO_SCHEMA: JsonSchema = scenarioSchema;
+
+/*
+ * JSON Schema (draft-07) of the flow YAML files, shipped as `flow.schema.json`,
+ * their steps are validated like the ones of a scenario
+ */
+export const FLOW_SCHEMA: JsonSchema = flowSchema;
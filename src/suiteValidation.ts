@@ -0,0 +1,508 @@
+import { existsSync, readdirSync } from 'fs';
+import { basename, dirname } from 'path';
+import { Root } from 'protobufjs';
+import { findActionType } from './actionTypeRegistry';
+import { environmentKeyOf } from './builtInActionTypes';
+import { Action, ActionDefinition } from './model/Action';
+import { FlowSignature } from './model/Flow';
+import { resolveImportPath } from './protoParsing';
+import {
+    findImportCycle,
+    validateFlowDefinition,
+    validateScenarioDefinition,
+} from './scenarioLoading';
+import { validateAgainstSchema } from './schemaValidation';
+import { ACTION_DEFINITION_SCHEMA } from './schemas/actionSchemas';
+import { loadYamlConfiguration, nameFromYamlConfig } from './yamlParsing';
+
+export interface SuiteValidationReport {
+    /* TRUE if no issue was found */
+    readonly valid: boolean;
+    /* one message per issue, each starting with the file containing it */
+    readonly issues: string[];
+}
+
+/* the properties of a parsed YAML file or step, not validated yet */
+type UnvalidatedDefinition = { readonly [property: string]: unknown };
+
+interface LoadedDefinition {
+    readonly name: string;
+    readonly file: string;
+    readonly definition: UnvalidatedDefinition;
+}
+
+/* a step of a scenario or flow with its file and its path within the file */
+interface LoadedStep {
+    readonly file: string;
+    readonly step: UnvalidatedDefinition;
+    readonly path: string;
+}
+
+/* references variables like `{{userId}}` but not evaluations like `{{{get('userId')}}}` */
+const VARIABLE_REFERENCE = /(?:^|[^{]){{(\w+)}}(?!})/g;
+
+/* the expression helpers and assignments setting variables, e.g. `{{{set('userId', 42)}}}` or `{{{vars.userId = 42}}}` */
+const VARIABLE_ASSIGNMENT = /\b(?:(?:set|getAndInc|getAndIncBy|incAndGet|incByAndGet)\(\s*['"`](\w+)['"`]|vars(?:\.(\w+)|\[\s*['"`](\w+)['"`]\s*\])\s*=(?!=))/g;
+
+/* reads the YAML file, a malformed file is reported as an issue instead */
+function loadDefinition(
+    file: string,
+    issues: string[],
+): LoadedDefinition | undefined {
+    try {
+        const definition = loadYamlConfiguration(file);
+        return definition !== undefined
+            ? { name: nameFromYamlConfig(basename(file)), file, definition }
+            : undefined;
+    } catch (e) {
+        issues.push(
+            `${file}: is not valid YAML: ${`${e.message}`.split('\n')[0]}`,
+        );
+        return undefined;
+    }
+}
+
+function loadDefinitions(dir: string, issues: string[]): LoadedDefinition[] {
+    return readdirSync(dir)
+        .filter(file => file.endsWith('.yaml'))
+        .map(file => loadDefinition(`${dir}/${file}`, issues))
+        .filter((loaded): loaded is LoadedDefinition => !!loaded);
+}
+
+/* the first matched group of every match */
+function matchesOf(regex: RegExp, text: string): string[] {
+    const matches: string[] = [];
+    let match = regex.exec(text);
+    while (match !== null) {
+        matches.push(
+            match.slice(1).find(group => group !== undefined) as string,
+        );
+        match = regex.exec(text);
+    }
+    return matches;
+}
+
+/* the properties of the value, none unless it is an object */
+const propertiesOf = (value: unknown): UnvalidatedDefinition =>
+    typeof value === 'object' && value !== null
+        ? (value as UnvalidatedDefinition)
+        : {};
+
+/* the elements of the value, none unless it is a list */
+const elementsOf = (value: unknown): unknown[] =>
+    Array.isArray(value) ? value : [];
+
+/* the strings of the value, which is either a string or a list */
+const namesOf = (value: unknown): string[] =>
+    ([] as unknown[])
+        .concat(value ?? [])
+        .filter((name): name is string => typeof name === 'string');
+
+/* the name and the type of each action, i.e. the catalog the steps are validated against */
+const actionCatalogOf = (
+    actions: LoadedDefinition[],
+): Pick<Action, 'name' | 'type'>[] =>
+    actions.map(({ name, definition }) => ({
+        name,
+        type: String(definition.type),
+    }));
+
+/* all strings contained in the (nested) value */
+function stringsOf(value: unknown): string[] {
+    if (typeof value === 'string') return [value];
+    if (typeof value === 'object' && value !== null) {
+        return ([] as string[]).concat(...Object.values(value).map(stringsOf));
+    }
+    return [];
+}
+
+function checkProtoFile(
+    file: string,
+    protoFile: unknown,
+    protoClass: unknown,
+): string[] {
+    if (typeof protoFile !== 'string') return [];
+    if (!existsSync(protoFile)) {
+        return [`${file}: the proto file '${protoFile}' does not exist`];
+    }
+    try {
+        const root = new Root();
+        root.resolvePath = resolveImportPath;
+        root.loadSync(protoFile);
+        if (typeof protoClass === 'string') root.lookupType(protoClass);
+        return [];
+    } catch (e) {
+        return [`${file}: the proto file '${protoFile}' is invalid: ${e}`];
+    }
+}
+
+function loadEnvironments(
+    issues: string[],
+    envConfigDir?: string,
+    environmentName?: string,
+): LoadedDefinition[] {
+    if (!envConfigDir) {
+        return [{ name: 'none', file: '(no environment)', definition: {} }];
+    }
+    const environments = loadDefinitions(envConfigDir, issues);
+    return environmentName === undefined
+        ? environments
+        : environments.filter(({ name }) => name === environmentName);
+}
+
+function validateActions(
+    actions: LoadedDefinition[],
+    environments: LoadedDefinition[],
+): string[] {
+    const issues: string[] = [];
+    actions.forEach(({ file, definition }) => {
+        const actionType = findActionType(String(definition.type));
+        const schemaErrors = validateAgainstSchema(
+            actionType?.schema ?? ACTION_DEFINITION_SCHEMA,
+            definition,
+            file,
+        );
+        if (schemaErrors.length > 0) {
+            issues.push(...schemaErrors);
+            return;
+        }
+        if (actionType === undefined) {
+            issues.push(`${file}: unknown action type '${definition.type}'`);
+            return;
+        }
+
+        // the definition is valid according to the schema of its type
+        const environmentKey = environmentKeyOf(
+            (definition as unknown) as ActionDefinition,
+        );
+        if (environmentKey !== undefined) {
+            environments
+                .filter(env => env.definition[environmentKey] === undefined)
+                .forEach(env =>
+                    issues.push(
+                        `${file}: '${environmentKey}' is neither a URL nor defined in the environment configuration ${env.file}`,
+                    ),
+                );
+        }
+        issues.push(
+            ...checkProtoFile(
+                file,
+                definition.protoFile,
+                definition.protoClass,
+            ),
+        );
+    });
+    return issues;
+}
+
+const flowSignatureOf = ({
+    name,
+    definition,
+}: LoadedDefinition): FlowSignature => ({
+    name,
+    parameters: propertiesOf(definition.parameters),
+    outputs: namesOf(definition.outputs),
+});
+
+/**
+ * Checks the steps for unknown actions and invalid proto files and whether
+ * every variable they use is defined (by the scenario, a previous step, ...).
+ * @param file The file of the scenario or flow
+ * @param steps The steps of the file including the imported ones
+ * @param definedVariables The variables defined besides the steps
+ * @param usedVariables The variables used besides the steps
+ */
+function validateSteps(
+    file: string,
+    steps: LoadedStep[],
+    actions: LoadedDefinition[],
+    flows: LoadedDefinition[],
+    definedVariables: Set<string>,
+    usedVariables: Set<string>,
+): string[] {
+    const issues: string[] = [];
+    const addVariablesOf = (definition: unknown): void =>
+        stringsOf(definition).forEach(text => {
+            matchesOf(VARIABLE_ASSIGNMENT, text).forEach(name =>
+                definedVariables.add(name),
+            );
+            matchesOf(VARIABLE_REFERENCE, text).forEach(name =>
+                usedVariables.add(name),
+            );
+        });
+    steps.forEach(({ file: stepFile, step, path }) => {
+        if (step.repeat !== undefined || step.forEach !== undefined) {
+            definedVariables.add('item');
+            definedVariables.add('index');
+        }
+        if (typeof step.forEach === 'string') usedVariables.add(step.forEach);
+        if (step.flow !== undefined) {
+            // the steps of the flow are checked with the flow
+            const flow = flows.find(f => f.name === step.flow);
+            if (flow) {
+                flowSignatureOf(flow).outputs.forEach(name =>
+                    definedVariables.add(name),
+                );
+            } else if (stepFile === file) {
+                issues.push(
+                    `${file}: '${path}' references the unknown flow '${step.flow}'`,
+                );
+            }
+            addVariablesOf(step);
+            return;
+        }
+        const template = actions.find(a => a.name === step.name);
+        if (template === undefined) {
+            if (stepFile === file) {
+                issues.push(
+                    `${file}: '${path}' references the unknown action '${step.name}'`,
+                );
+            }
+            return;
+        }
+        const effectiveDefinition = { ...template.definition, ...step };
+        Object.keys(propertiesOf(effectiveDefinition.variables)).forEach(name =>
+            definedVariables.add(name),
+        );
+        if (effectiveDefinition.type === 'NODE_JS') {
+            Object.keys(propertiesOf(effectiveDefinition.data)).forEach(name =>
+                definedVariables.add(name),
+            );
+        }
+        addVariablesOf(effectiveDefinition);
+        if (stepFile === file) {
+            issues.push(
+                ...checkProtoFile(file, step.protoFile, step.protoClass),
+            );
+        }
+    });
+    usedVariables.forEach(name => {
+        if (!definedVariables.has(name)) {
+            issues.push(
+                `${file}: the variable '{{${name}}}' is used but never defined`,
+            );
+        }
+    });
+    return issues;
+}
+
+function validateFlow(
+    flow: LoadedDefinition,
+    actions: LoadedDefinition[],
+): string[] {
+    const { file, definition } = flow;
+    const issues = validateFlowDefinition(
+        definition,
+        file,
+        actionCatalogOf(actions),
+    );
+    if (issues.length > 0) return issues;
+
+    const { parameters, outputs } = flowSignatureOf(flow);
+    const definedVariables = new Set(Object.keys(parameters));
+    issues.push(
+        ...validateSteps(
+            file,
+            elementsOf(definition.actions).map((step, index) => ({
+                file,
+                step: propertiesOf(step),
+                path: `actions[${index}]`,
+            })),
+            actions,
+            [],
+            definedVariables,
+            new Set<string>(),
+        ),
+    );
+    outputs
+        .filter(name => !definedVariables.has(name))
+        .forEach(name =>
+            issues.push(`${file}: the output '${name}' is never defined`),
+        );
+    return issues;
+}
+
+/* the scenarios which can be imported by their name */
+type ImportableScenarios = (name: string) => LoadedDefinition | undefined;
+
+function validateScenario(
+    scenario: LoadedDefinition,
+    importable: ImportableScenarios,
+    actions: LoadedDefinition[],
+    flows: LoadedDefinition[],
+): string[] {
+    const { file, definition } = scenario;
+    const issues = validateScenarioDefinition(
+        definition,
+        file,
+        actionCatalogOf(actions),
+        flows.map(flowSignatureOf),
+    );
+    if (issues.length > 0) return issues;
+
+    const imports = namesOf(definition.import);
+    imports
+        .filter(name => importable(name) === undefined)
+        .forEach(name =>
+            issues.push(
+                `${file}: the imported scenario '${name}' does not exist`,
+            ),
+        );
+    ['before', 'after'].forEach(property => {
+        namesOf(definition[property])
+            .filter(name => !imports.includes(name))
+            .forEach(name =>
+                issues.push(
+                    `${file}: '${property}' references the scenario '${name}' which is not imported`,
+                ),
+            );
+    });
+    const cycle = findImportCycle(scenario.name, name =>
+        namesOf(importable(name)?.definition.import),
+    );
+    if (cycle) {
+        issues.push(`${file}: cyclic scenario import: ${cycle.join(' -> ')}`);
+        return issues;
+    }
+
+    // the steps of the scenario including the ones of its (nested) `before` and `after` scenarios
+    const steps: LoadedStep[] = [];
+    const addStepsOf = (s: LoadedDefinition | undefined): void => {
+        if (s === undefined) return;
+        namesOf(s.definition.before).forEach(name =>
+            addStepsOf(importable(name)),
+        );
+        elementsOf(s.definition.actions)
+            .map(propertiesOf)
+            .forEach((step, index) => {
+                if (Array.isArray(step.parallel)) {
+                    step.parallel.forEach((parallelStep, i) =>
+                        steps.push({
+                            file: s.file,
+                            step: propertiesOf(parallelStep),
+                            path: `actions[${index}].parallel[${i}]`,
+                        }),
+                    );
+                } else if (step.await === undefined) {
+                    steps.push({
+                        file: s.file,
+                        step,
+                        path: `actions[${index}]`,
+                    });
+                }
+            });
+        namesOf(s.definition.after).forEach(name =>
+            addStepsOf(importable(name)),
+        );
+    };
+    addStepsOf(scenario);
+
+    const definedVariables = new Set<string>(
+        Object.keys(propertiesOf(definition.variables)),
+    );
+    const usedVariables = new Set<string>(
+        ([] as string[]).concat(
+            ...stringsOf(definition.variables).map(text =>
+                matchesOf(VARIABLE_REFERENCE, text),
+            ),
+        ),
+    );
+    issues.push(
+        ...validateSteps(
+            file,
+            steps,
+            actions,
+            flows,
+            definedVariables,
+            usedVariables,
+        ),
+    );
+    return issues;
+}
+
+/**
+ * Loads the actions, flows and scenarios like a run does, but without invoking
+ * any of them, and reports every issue which would make the run fail or
+ * misbehave: malformed YAML files, invalid definitions, actions referencing
+ * unknown templates, imported scenarios and `before`/`after` scenarios which
+ * cannot be resolved or import each other, flows invoked with wrong arguments,
+ * variables which are used but never defined, URLs missing in the environment
+ * configuration and proto files which cannot be read.
+ * @param actionDir The directory containing the action definitions
+ * @param scenarioPaths The directories containing the scenarios and the
+ * scenario files to be checked, a file may import the scenarios next to it
+ * @param envConfigDir The directory containing the environment configurations
+ * @param environmentName The environment to be checked, all if omitted
+ * @param importDir The directory containing shared scenarios which can be imported
+ * @param flowDir The directory containing the flows which can be invoked
+ */
+export function validateSuite(
+    actionDir: string,
+    scenarioPaths: string | string[],
+    envConfigDir?: string,
+    environmentName?: string,
+    importDir?: string,
+    flowDir?: string,
+): SuiteValidationReport {
+    const issues: string[] = [];
+    const actions = loadDefinitions(actionDir, issues);
+    const environments = loadEnvironments(
+        issues,
+        envConfigDir,
+        environmentName,
+    );
+    issues.push(...validateActions(actions, environments));
+    if (environments.length === 0 && environmentName !== undefined) {
+        issues.push(
+            `${envConfigDir}: the environment configuration '${environmentName}.yaml' does not exist`,
+        );
+    }
+
+    const flows = flowDir ? loadDefinitions(flowDir, issues) : [];
+    flows.forEach(flow => issues.push(...validateFlow(flow, actions)));
+
+    const sharedScenarios = importDir ? loadDefinitions(importDir, issues) : [];
+    const sharedScenario = (name: string): LoadedDefinition | undefined =>
+        sharedScenarios.find(s => s.name === name);
+    sharedScenarios.forEach(scenario =>
+        issues.push(
+            ...validateScenario(scenario, sharedScenario, actions, flows),
+        ),
+    );
+    // every scenario file is read once, even if it is given and imported by other given files
+    const scenarioFiles = new Map<string, LoadedDefinition | undefined>();
+    const scenarioFileOf = (file: string): LoadedDefinition | undefined => {
+        if (!scenarioFiles.has(file)) {
+            scenarioFiles.set(file, loadDefinition(file, issues));
+        }
+        return scenarioFiles.get(file);
+    };
+    ([] as string[]).concat(scenarioPaths).forEach(path => {
+        if (path.endsWith('.yaml')) {
+            // the other scenarios of the directory are only read if they are imported
+            const importable = (name: string): LoadedDefinition | undefined => {
+                const file = `${dirname(path)}/${name}.yaml`;
+                return existsSync(file)
+                    ? scenarioFileOf(file)
+                    : sharedScenario(name);
+            };
+            const scenario = scenarioFileOf(path);
+            if (scenario !== undefined) {
+                issues.push(
+                    ...validateScenario(scenario, importable, actions, flows),
+                );
+            }
+            return;
+        }
+        // the scenarios of the directory take precedence over the shared ones
+        const scenarios = loadDefinitions(path, issues);
+        const importable = (name: string): LoadedDefinition | undefined =>
+            scenarios.find(s => s.name === name) ?? sharedScenario(name);
+        scenarios.forEach(scenario =>
+            issues.push(
+                ...validateScenario(scenario, importable, actions, flows),
+            ),
+        );
+    });
+    return { valid: issues.length === 0, issues };
+}
@@ -0,0 +1,84 @@
+import { TagExpressionError } from './model/error/TagExpressionError';
+
+export type TagPredicate = (tags: string[]) => boolean;
+
+const TOKEN_PATTERN = /\s*(&&|\|\||!|\(|\)|[^\s&|!()]+)/g;
+
+function tokenize(expression: string): string[] {
+    const tokens: string[] = [];
+    let consumed = 0;
+    let match = TOKEN_PATTERN.exec(expression);
+    while (match !== null && match.index === consumed) {
+        tokens.push(match[1]);
+        consumed = TOKEN_PATTERN.lastIndex;
+        match = TOKEN_PATTERN.exec(expression);
+    }
+    TOKEN_PATTERN.lastIndex = 0;
+    if (expression.substring(consumed).trim() !== '') {
+        throw new TagExpressionError(
+            expression,
+            `unexpected '${expression.substring(consumed).trim()}'`,
+        );
+    }
+    return tokens;
+}
+
+const isOperator = (token: string): boolean =>
+    ['&&', '||', '!', '(', ')'].includes(token);
+
+/**
+ * Parses a boolean tag expression like `smoke && !(slow || flaky)` into a
+ * predicate over the tags of a scenario. Supported are tag names, `!`, `&&`
+ * and `||` (in descending precedence) as well as parentheses.
+ * @param expression The tag expression to be parsed
+ * @throws TagExpressionError if the expression is not well-formed
+ */
+export function parseTagExpression(expression: string): TagPredicate {
+    const tokens = tokenize(expression);
+    let position = 0;
+
+    const fail = (reason: string): never => {
+        throw new TagExpressionError(expression, reason);
+    };
+
+    function parsePrimary(): TagPredicate {
+        const token = tokens[position++];
+        if (token === undefined) return fail('unexpected end of expression');
+        if (token === '!') {
+            const operand = parsePrimary();
+            return tags => !operand(tags);
+        }
+        if (token === '(') {
+            const inner = parseOr();
+            if (tokens[position++] !== ')') return fail("missing ')'");
+            return inner;
+        }
+        if (isOperator(token)) return fail(`unexpected '${token}'`);
+        return tags => tags.includes(token);
+    }
+
+    function parseAnd(): TagPredicate {
+        let left = parsePrimary();
+        while (tokens[position] === '&&') {
+            position++;
+            const [l, right] = [left, parsePrimary()];
+            left = tags => l(tags) && right(tags);
+        }
+        return left;
+    }
+
+    function parseOr(): TagPredicate {
+        let left = parseAnd();
+        while (tokens[position] === '||') {
+            position++;
+            const [l, right] = [left, parseAnd()];
+            left = tags => l(tags) || right(tags);
+        }
+        return left;
+    }
+
+    if (tokens.length === 0) fail('expression is empty');
+    const predicate = parseOr();
+    if (position < tokens.length) fail(`unexpected '${tokens[position]}'`);
+    return predicate;
+}
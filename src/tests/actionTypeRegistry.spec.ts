@@ -0,0 +1,144 @@
+import 'mocha';
+import { expect } from 'chai';
+import {
+    ActionTypeDefinition,
+    findActionType,
+    registerActionType,
+    unregisterActionType,
+} from '../actionTypeRegistry';
+import { loadAllActions } from '../actionLoading';
+import { Action, ActionDefinition } from '../model/Action';
+import { ActionCallback } from '../model/ActionCallback';
+import { Scenario } from '../model/Scenario';
+
+interface TcpActionDefinition extends ActionDefinition {
+    readonly port: number;
+    readonly message: string;
+}
+
+class TcpAction implements Action {
+    readonly type = 'TCP';
+
+    readonly invokeEvenOnFail = false;
+
+    readonly allowFailure = false;
+
+    readonly name: string;
+
+    readonly description: string;
+
+    readonly port: number;
+
+    readonly message: string;
+
+    constructor(
+        name: string,
+        description: string,
+        port: number,
+        message: string,
+    ) {
+        this.name = name;
+        this.description = description;
+        this.port = port;
+        this.message = message;
+    }
+
+    invoke(): ActionCallback {
+        return { promise: Promise.resolve(this.message), cancel: () => {} };
+    }
+}
+
+describe('Action type registry', () => {
+    before(() => {
+        registerActionType<TcpAction, TcpActionDefinition>({
+            type: 'TCP',
+            isValidDefinition: (
+                actionDef: ActionDefinition,
+            ): actionDef is TcpActionDefinition =>
+                typeof (actionDef as TcpActionDefinition).port === 'number',
+            create: (name, actionDef) =>
+                new TcpAction(
+                    name,
+                    actionDef.description ?? name,
+                    actionDef.port,
+                    actionDef.message,
+                ),
+            fromTemplate: (stepDef, template) =>
+                new TcpAction(
+                    template.name,
+                    stepDef.description ?? stepDef.name,
+                    template.port,
+                    stepDef.message ?? template.message,
+                ),
+            runsInBackground: true,
+        });
+    });
+
+    after(() => unregisterActionType('TCP'));
+
+    it('should contain the built-in action types', () => {
+        [
+            'REST',
+            'TIMER',
+            'WEBSOCKET',
+            'MQTT',
+            'MQTT_PUBLISH',
+            'AMQP_LISTEN',
+            'NODE_JS',
+        ].forEach(type => expect(findActionType(type)).to.not.be.undefined);
+        expect(findActionType('MQTT')).to.include({ runsInBackground: true });
+        expect(findActionType('REST')).to.not.include({
+            runsInBackground: true,
+        });
+    });
+
+    it('should not allow to register an action type twice', () => {
+        expect(() =>
+            registerActionType(findActionType('REST') as ActionTypeDefinition),
+        ).to.throw("Action type 'REST' is already registered");
+    });
+
+    it('should only unregister custom action types', () => {
+        expect(() => unregisterActionType('REST')).to.throw(
+            "Action type 'REST' is built-in and cannot be unregistered",
+        );
+        const tcp = findActionType('TCP') as ActionTypeDefinition;
+
+        unregisterActionType('TCP');
+
+        expect(findActionType('TCP')).to.be.undefined;
+        registerActionType(tcp);
+        expect(findActionType('TCP')).to.equal(tcp);
+    });
+
+    it('should load actions of a registered custom type', () => {
+        const actions = loadAllActions('src/tests/resources/customActions', {});
+
+        expect(actions).to.have.lengthOf(1);
+        expect(actions[0]).to.be.instanceOf(TcpAction);
+        expect(actions[0]).to.include({
+            name: 'tcpAction',
+            type: 'TCP',
+            port: 4711,
+            message: 'hello',
+        });
+    });
+
+    it('should create scenario actions of a registered custom type from their template', () => {
+        const actions = loadAllActions('src/tests/resources/customActions', {});
+
+        const scenario = new Scenario(
+            'custom',
+            { actions: [{ name: 'tcpAction', message: 'bye' }] },
+            actions,
+            [],
+        );
+
+        expect(scenario.actions).to.have.lengthOf(1);
+        expect(scenario.actions[0]).to.include({
+            description: 'tcpAction',
+            port: 4711,
+            message: 'bye',
+        });
+    });
+});
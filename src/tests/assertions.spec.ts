@@ -0,0 +1,297 @@
+import 'mocha';
+import { expect } from 'chai';
+import {
+    checkAssertion,
+    checkJsonPathAssertion,
+    checkMessage,
+    explainFailedExpression,
+} from '../assertions';
+import { Assertion } from '../model/Assertion';
+import { AssertionFailedError } from '../model/error/AssertionFailedError';
+
+describe('Assertions', () => {
+    const response = {
+        user: { name: 'alt', roles: ['admin', 'dev'] },
+        items: [{ id: 1 }, { id: 2 }],
+    };
+
+    it('should pass if all checks of a JSONPath assertion pass', () => {
+        expect(() =>
+            checkJsonPathAssertion(
+                {
+                    path: '$.user',
+                    equals: { roles: ['admin', 'dev'], name: 'alt' },
+                    exists: true,
+                },
+                response,
+            ),
+        ).not.to.throw();
+        expect(() =>
+            checkJsonPathAssertion(
+                { path: '$.user.name', matches: '^a.t$', length: 3 },
+                response,
+            ),
+        ).not.to.throw();
+        expect(() =>
+            checkJsonPathAssertion(
+                { path: '$.items[*].id', length: 2, equals: [1, 2] },
+                response,
+            ),
+        ).not.to.throw();
+        expect(() =>
+            checkJsonPathAssertion(
+                { path: '$.user.email', exists: false },
+                response,
+            ),
+        ).not.to.throw();
+    });
+
+    it('should report the expected and the actual value of a failed check', () => {
+        const failureOf = (assertion: {
+            path: string;
+            [check: string]: unknown;
+        }): AssertionFailedError => {
+            try {
+                checkJsonPathAssertion(assertion, response);
+            } catch (e) {
+                return e;
+            }
+            throw new Error('Expected an AssertionFailedError');
+        };
+
+        const failure = failureOf({ path: '$.user.name', equals: 'bob' });
+        expect(failure).to.be.instanceOf(AssertionFailedError);
+        expect(failure.message).to.equal(
+            '\'$.user.name\' equals: expected "bob", but was "alt"',
+        );
+        expect(failure.expected).to.equal('bob');
+        expect(failure.actual).to.equal('alt');
+        expect(failureOf({ path: '$.user.roles', length: 3 }).message).to.equal(
+            "'$.user.roles' length: expected 3, but was 2",
+        );
+        expect(
+            failureOf({ path: '$.items[0]', matches: '"id":2' }).message,
+        ).to.equal(
+            '\'$.items[0]\' matches: expected "\\"id\\":2", but was {"id":1}',
+        );
+        expect(
+            failureOf({ path: '$.user.email', equals: 'a' }).message,
+        ).to.equal("'$.user.email' exists: expected true, but was false");
+    });
+
+    it('should pass if all checks of an assertion pass', () => {
+        expect(() =>
+            checkAssertion(
+                {
+                    path: '$.user',
+                    deepEquals: { roles: ['admin', 'dev'], name: 'alt' },
+                    contains: { name: 'alt' },
+                    type: 'object',
+                    exists: true,
+                },
+                response,
+            ),
+        ).not.to.throw();
+        expect(() =>
+            checkAssertion(
+                {
+                    path: '$.user.name',
+                    equals: 'alt',
+                    matchesRegex: '^a.t$',
+                    contains: 'lt',
+                },
+                response,
+            ),
+        ).not.to.throw();
+        expect(() =>
+            checkAssertion(
+                {
+                    path: '$.items[*].id',
+                    count: 2,
+                    deepEquals: [1, 2],
+                    contains: 2,
+                },
+                response,
+            ),
+        ).not.to.throw();
+        expect(() =>
+            checkAssertion({ path: '$.user.roles', count: 2 }, response),
+        ).not.to.throw();
+        expect(() =>
+            checkAssertion(
+                { path: '$.items[?(@.id > 2)]', count: 0 },
+                response,
+            ),
+        ).not.to.throw();
+        expect(() =>
+            checkAssertion({ path: '$.user.email', exists: false }, response),
+        ).not.to.throw();
+    });
+
+    it('should check the value of an expression', () => {
+        const variables = new Map<string, unknown>([['minimum', 1]]);
+
+        expect(() =>
+            checkAssertion(
+                {
+                    value: 'res.items.length',
+                    greaterThan: 1,
+                    type: 'number',
+                },
+                undefined,
+                variables,
+                { res: response },
+            ),
+        ).not.to.throw();
+        expect(() =>
+            checkAssertion(
+                { value: 'res.user.roles', type: 'array', count: 2 },
+                undefined,
+                variables,
+                { res: response },
+            ),
+        ).not.to.throw();
+        expect(() =>
+            checkAssertion(
+                { value: 'res.items[0].id', greaterThan: 1 },
+                undefined,
+                variables,
+                { res: response },
+            ),
+        ).to.throw('(res.items[0].id) greaterThan: expected 1, but was 1');
+    });
+
+    it('should report the expected and the actual value of a failed new check', () => {
+        const failureOf = (assertion: Assertion): AssertionFailedError => {
+            try {
+                checkAssertion(assertion, response);
+            } catch (e) {
+                return e;
+            }
+            throw new Error('Expected an AssertionFailedError');
+        };
+
+        const failure = failureOf({ path: '$.user.name', equals: 'bob' });
+        expect(failure).to.be.instanceOf(AssertionFailedError);
+        expect(failure.message).to.equal(
+            '\'$.user.name\' equals: expected "bob", but was "alt"',
+        );
+        expect(failure.expected).to.equal('bob');
+        expect(failure.actual).to.equal('alt');
+        expect(
+            failureOf({ path: '$.user', deepEquals: { name: 'bob' } }).diff,
+        ).to.deep.equal([
+            { kind: 'both', text: '{' },
+            { kind: 'expected', text: '  "name": "bob"' },
+            { kind: 'actual', text: '  "name": "alt",' },
+            { kind: 'actual', text: '  "roles": [' },
+            { kind: 'actual', text: '    "admin",' },
+            { kind: 'actual', text: '    "dev"' },
+            { kind: 'actual', text: '  ]' },
+            { kind: 'both', text: '}' },
+        ]);
+        expect(
+            failureOf({ path: '$.user.roles', contains: 'ops' }).message,
+        ).to.equal(
+            '\'$.user.roles\' contains: expected "ops", but was ["admin","dev"]',
+        );
+        expect(failureOf({ path: '$.user.roles', count: 3 }).message).to.equal(
+            "'$.user.roles' count: expected 3, but was 2",
+        );
+        expect(failureOf({ path: '$.user.name', count: 3 }).message).to.equal(
+            "'$.user.name' count: expected 3, but was undefined",
+        );
+        expect(failureOf({ path: '$.user', type: 'array' }).message).to.equal(
+            '\'$.user\' type: expected "array", but was "object"',
+        );
+        expect(
+            failureOf({ path: '$.items[0]', matchesRegex: '"id":2' }).message,
+        ).to.equal(
+            '\'$.items[0]\' matchesRegex: expected "\\"id\\":2", but was {"id":1}',
+        );
+        expect(
+            failureOf({ path: '$.user.email', equals: 'a' }).message,
+        ).to.equal("'$.user.email' exists: expected true, but was false");
+    });
+
+    it('should explain a failed equality by the values of its operands', () => {
+        const variables = new Map<string, unknown>([['name', 'bob']]);
+        const bindings = { res: response };
+
+        const failure = explainFailedExpression(
+            "res.user.name === get('name')",
+            variables,
+            bindings,
+        );
+        expect(failure?.message).to.equal(
+            '(res.user.name === get(\'name\')): expected "bob", but was "alt"',
+        );
+        expect(failure?.diff).to.deep.equal([
+            { kind: 'expected', text: '"bob"' },
+            { kind: 'actual', text: '"alt"' },
+        ]);
+        expect(
+            explainFailedExpression(
+                "res.user.roles.includes('a == b')",
+                variables,
+                bindings,
+            ),
+        ).to.equal(undefined);
+        expect(
+            explainFailedExpression(
+                'res.items.length == 2 && res.user.name == 1',
+                variables,
+                bindings,
+            ),
+        ).to.equal(undefined);
+        expect(
+            explainFailedExpression(
+                'res.items.length >= 3',
+                variables,
+                bindings,
+            ),
+        ).to.equal(undefined);
+        expect(
+            explainFailedExpression('res.a.b === 1', variables, bindings),
+        ).to.equal(undefined);
+    });
+
+    it('should validate messages and extract variables from them', () => {
+        const variables = new Map<string, unknown>([['expectedName', 'alt']]);
+
+        checkMessage(
+            response,
+            {
+                messageValidation: [
+                    'msg.items.length === 2',
+                    { path: '$.user.name', equals: '{{expectedName}}' },
+                ],
+                variables: {
+                    firstId: { jsonPath: '$.items[0].id' },
+                    role: 'msg.user.roles[1]',
+                },
+            },
+            variables,
+            {},
+        );
+
+        expect(variables.get('firstId')).to.equal(1);
+        expect(variables.get('role')).to.equal('dev');
+        expect(() =>
+            checkMessage(
+                response,
+                { messageValidation: ['msg.items.length === 3'] },
+                variables,
+                {},
+            ),
+        ).to.throw('(msg.items.length === 3): expected 3, but was 2');
+        expect(() =>
+            checkMessage(
+                response,
+                { messageValidation: ['msg.items.length > 2'] },
+                variables,
+                {},
+            ),
+        ).to.throw('Validation failed: (msg.items.length > 2)');
+    });
+});
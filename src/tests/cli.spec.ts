@@ -0,0 +1,171 @@
+import 'mocha';
+import { expect } from 'chai';
+import { parseArguments } from '../cli/arguments';
+import { expandGlob, globToRegExp } from '../cli/glob';
+import { EXIT_CONFIGURATION_ERROR, EXIT_TEST_FAILURE, main } from '../cli';
+import { UsageError } from '../model/error/UsageError';
+
+describe('Command line interface', () => {
+    describe('Argument parsing', () => {
+        it('should parse all options of the run command', () => {
+            const options = parseArguments([
+                'run',
+                '--actions',
+                'src/actions',
+                '-e',
+                'src/environment',
+                '--env=dev',
+                '-i',
+                'src/shared',
+                '-f',
+                'src/flows',
+                '-p',
+                '5',
+                '--rate',
+                '0.5',
+                '-t',
+                'smoke && !slow',
+                '--exclude-tags=flaky',
+                '--seed',
+                '42',
+                '--no-diagrams',
+                '-o',
+                'reports',
+                '--report',
+                'junit,html',
+                'src/scenarios/s1.yaml',
+                'src/scenarios/s2-*.yaml',
+            ]);
+
+            expect(options).to.deep.equal({
+                command: 'run',
+                actionDir: 'src/actions',
+                envConfigDir: 'src/environment',
+                environmentName: 'dev',
+                importDir: 'src/shared',
+                flowDir: 'src/flows',
+                numberOfScenariosRunInParallel: 5,
+                maxScenarioStartsPerSecond: 0.5,
+                includeTags: 'smoke && !slow',
+                excludeTags: 'flaky',
+                seed: '42',
+                drawDiagrams: false,
+                outDir: 'reports',
+                reportFormats: ['junit', 'html'],
+                scenarioPaths: [
+                    'src/scenarios/s1.yaml',
+                    'src/scenarios/s2-*.yaml',
+                ],
+            });
+        });
+
+        it('should return the help command if no command is given', () => {
+            expect(parseArguments([]).command).to.be.equal('help');
+            expect(parseArguments(['run', '-h']).command).to.be.equal('help');
+        });
+
+        it('should reject missing action directories', () => {
+            expect(() => parseArguments(['run', 's1.yaml'])).to.throw(
+                UsageError,
+                'Missing required option --actions',
+            );
+        });
+
+        it('should reject unknown options and report formats', () => {
+            expect(() =>
+                parseArguments(['run', '-a', 'actions', '--foo', 's1.yaml']),
+            ).to.throw(UsageError, "Unknown option '--foo'");
+            expect(() =>
+                parseArguments([
+                    'run',
+                    '-a',
+                    'actions',
+                    '-r',
+                    'pdf',
+                    's1.yaml',
+                ]),
+            ).to.throw(UsageError, "Unknown report format 'pdf'");
+        });
+
+        it('should reject invalid parallelism', () => {
+            expect(() =>
+                parseArguments(['run', '-a', 'actions', '-p', '0', 's1.yaml']),
+            ).to.throw(UsageError, 'expects a positive integer');
+        });
+    });
+
+    describe('Glob expansion', () => {
+        it('should convert globs to regular expressions', () => {
+            expect(globToRegExp('a/*.yaml').test('a/s1.yaml')).to.be.true;
+            expect(globToRegExp('a/*.yaml').test('a/b/s1.yaml')).to.be.false;
+            expect(globToRegExp('a/**/*.yaml').test('a/b/s1.yaml')).to.be.true;
+            expect(globToRegExp('a/**/*.yaml').test('a/s1.yaml')).to.be.true;
+            expect(globToRegExp('a/s?.yaml').test('a/s1.yaml')).to.be.true;
+        });
+
+        it('should expand globs to the matching files', () => {
+            expect(
+                expandGlob('src/tests/resources/scenarios/s0*.yaml'),
+            ).to.deep.equal([
+                'src/tests/resources/scenarios/s01-before.yaml',
+                'src/tests/resources/scenarios/s02-after.yaml',
+            ]);
+        });
+
+        it('should expand globs to the matching YAML files only', () => {
+            expect(
+                expandGlob('src/tests/resources/scenarios/s0*'),
+            ).to.deep.equal([
+                'src/tests/resources/scenarios/s01-before.yaml',
+                'src/tests/resources/scenarios/s02-after.yaml',
+            ]);
+        });
+
+        it('should return paths without glob characters unchanged', () => {
+            expect(expandGlob('does/not/exist.yaml')).to.deep.equal([
+                'does/not/exist.yaml',
+            ]);
+        });
+    });
+
+    it('should exit with a configuration error on invalid usage', async () => {
+        const errors: string[] = [];
+        const output = {
+            log: () => {},
+            error: (text: string) => errors.push(text),
+        };
+
+        expect(await main(['unknown'], output)).to.be.equal(
+            EXIT_CONFIGURATION_ERROR,
+        );
+        expect(errors[0]).to.contain("Unknown command 'unknown'");
+        expect(errors[0]).to.contain('Usage: alt');
+    });
+
+    it('should report the issues of the suite in validate mode', async () => {
+        const errors: string[] = [];
+        const logs: string[] = [];
+        const output = {
+            log: (text: string) => logs.push(text),
+            error: (text: string) => errors.push(text),
+        };
+
+        expect(
+            await main(
+                [
+                    'validate',
+                    '-a',
+                    'src/tests/resources/invalidSuite/actions',
+                    '-e',
+                    'src/tests/resources/invalidSuite/environment',
+                    '-n',
+                    'dev',
+                    'src/tests/resources/invalidSuite/scenarios/*.yaml',
+                ],
+                output,
+            ),
+        ).to.be.equal(EXIT_TEST_FAILURE);
+        expect(errors).to.have.lengthOf(7);
+        expect(logs).to.deep.equal(['7 issue(s) found']);
+    });
+});
@@ -0,0 +1,110 @@
+import 'mocha';
+import { expect } from 'chai';
+import {
+    dataHelpersOf,
+    seededRandom,
+    useRandomSource,
+} from '../dataGeneration';
+import { evaluateExpression } from '../expressionEvaluation';
+import { RunContext } from '../model/RunContext';
+import { Scenario } from '../model/Scenario';
+
+describe('Data generation', () => {
+    const helpers = dataHelpersOf(seededRandom(42)) as {
+        [name: string]: (...args: unknown[]) => unknown;
+    };
+
+    it('should generate the same values for the same seed', () => {
+        const numbersOf = (random: () => number): number[] =>
+            [1, 2, 3].map(() => random());
+        const numbers = numbersOf(seededRandom('run-1'));
+
+        expect(numbersOf(seededRandom('run-1'))).to.deep.equal(numbers);
+        expect(numbersOf(seededRandom('run-2'))).not.to.deep.equal(numbers);
+        numbers.forEach(n => expect(n).to.be.within(0, 1));
+    });
+
+    it('should generate random values in the given ranges', () => {
+        expect(helpers.uuid()).to.match(
+            /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+        );
+        for (let i = 0; i < 100; i++) {
+            expect(helpers.randomInt(5, 7)).to.be.oneOf([5, 6, 7]);
+        }
+        expect(helpers.randomString(12)).to.match(/^[A-Za-z0-9]{12}$/);
+        expect(helpers.randomString(4, 'ab')).to.match(/^[ab]{4}$/);
+        expect(helpers.randomElement(['x'])).to.equal('x');
+    });
+
+    it('should generate names, emails and addresses', () => {
+        expect(helpers.fullName()).to.match(/^\S+ \S+$/);
+        expect(helpers.email('test.io')).to.match(
+            /^[a-z]+\.[a-z]+\d+@test\.io$/,
+        );
+        expect(helpers.address()).to.have.all.keys(
+            'street',
+            'houseNumber',
+            'zipCode',
+            'city',
+            'country',
+        );
+    });
+
+    it('should calculate dates and timestamps', () => {
+        const date = '2020-01-31T12:00:00.000Z';
+
+        expect(helpers.datePlus(2, 'hours', date)).to.equal(
+            '2020-01-31T14:00:00.000Z',
+        );
+        expect(helpers.datePlus(-1, 'weeks', date)).to.equal(
+            '2020-01-24T12:00:00.000Z',
+        );
+        expect(helpers.datePlus(1, 'years', date)).to.equal(
+            '2021-01-31T12:00:00.000Z',
+        );
+        expect(() => helpers.datePlus(1, 'decades', date)).to.throw(
+            'Unknown unit of time: decades',
+        );
+        expect(helpers.unixTimestamp(date)).to.equal(1580472000);
+    });
+
+    it('should encode, hash and create unsigned JWTs', () => {
+        expect(helpers.base64Encode('alt')).to.equal('YWx0');
+        expect(helpers.base64Decode('YWx0')).to.equal('alt');
+        expect(helpers.hexEncode('alt')).to.equal('616c74');
+        expect(helpers.hexDecode('616c74')).to.equal('alt');
+        expect(helpers.sha('abc', 'sha1')).to.equal(
+            'a9993e364706816aba3e25717850c26c9cd0d89d',
+        );
+        expect(helpers.hmac('abc', 'key')).to.have.lengthOf(64);
+        expect(helpers.jwt({ sub: '1' })).to.equal(
+            'eyJhbGciOiJub25lIiwidHlwIjoiSldUIn0.eyJzdWIiOiIxIn0.',
+        );
+    });
+
+    it('should offer the helpers in expressions and use the random source of the variables', () => {
+        const vars = new Map<string, unknown>();
+        useRandomSource(vars, seededRandom(7));
+        const first = evaluateExpression('uuid() + randomInt(1, 100)', vars);
+        useRandomSource(vars, seededRandom(7));
+
+        expect(evaluateExpression('uuid() + randomInt(1, 100)', vars)).to.equal(
+            first,
+        );
+    });
+
+    it('should seed every scenario of a seeded run', () => {
+        const idOf = (runContext: RunContext): unknown =>
+            new Scenario(
+                's1',
+                { actions: [], variables: { id: '{{{uuid()}}}' } },
+                [],
+                [],
+                runContext,
+            ).cache.get('id');
+
+        const seeded = new RunContext(undefined, undefined, undefined, 1);
+        expect(idOf(seeded)).to.equal(idOf(seeded));
+        expect(idOf(new RunContext())).not.to.equal(idOf(new RunContext()));
+    });
+});
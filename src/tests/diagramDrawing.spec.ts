@@ -1,6 +1,9 @@
 import 'mocha';
 import { expect } from 'chai';
-import { formatPayload } from '../diagramDrawing/diagramDrawing';
+import {
+    formatPayload,
+    formatPayloadForReport,
+} from '../diagramDrawing/diagramDrawing';
 
 describe('Diagram drawing', () => {
     describe('Payload formatting', () => {
@@ -63,5 +66,23 @@ describe('Diagram drawing', () => {
             // then
             expect(result).to.equal('***');
         });
+
+        it('should neither trim plaintext nor show hidden fields in the report', () => {
+            // given
+            const text = 'a'.repeat(40);
+            const data = { foo: 'abc', notHiddenField: 42 };
+
+            // when
+            const textResult = formatPayloadForReport(text, {});
+            const dataResult = formatPayloadForReport(data, {
+                hiddenFields: ['foo'],
+            });
+
+            // then
+            expect(textResult).to.equal(text);
+            expect(dataResult).to.equal(
+                '{\n  "foo": "***",\n  "notHiddenField": 42\n}',
+            );
+        });
     });
 });
@@ -0,0 +1,71 @@
+import 'mocha';
+import { expect } from 'chai';
+import { compileExpression, evaluateExpression } from '../expressionEvaluation';
+
+describe('Expression evaluation', () => {
+    it('should evaluate expressions against the given bindings', () => {
+        const vars = new Map<string, unknown>();
+
+        expect(
+            evaluateExpression('res.data.code === 200', vars, {
+                res: { data: { code: 200 } },
+            }),
+        ).to.equal(true);
+        expect(
+            evaluateExpression("head['content-type']", vars, {
+                head: { 'content-type': 'text/plain' },
+            }),
+        ).to.equal('text/plain');
+        expect(
+            evaluateExpression('msg.type', vars, { msg: { type: 'ping' } }),
+        ).to.equal('ping');
+    });
+
+    it('should read and write the scenario variables via vars and the helpers', () => {
+        const vars = new Map<string, unknown>([['retries', 1]]);
+
+        expect(
+            evaluateExpression(
+                "vars.user = 'alt'; this.incAndGet('retries') + get('retries')",
+                vars,
+            ),
+        ).to.equal(4);
+        expect(vars.get('user')).to.equal('alt');
+        expect(evaluateExpression("'user' in vars", vars)).to.equal(true);
+    });
+
+    it("should not expose Node's globals", () => {
+        const vars = new Map<string, unknown>();
+
+        expect(
+            evaluateExpression(
+                'typeof require + typeof process + typeof module',
+                vars,
+            ),
+        ).to.equal('undefinedundefinedundefined');
+        expect(() => evaluateExpression('process.exit(1)', vars)).to.throw(
+            'process is not defined',
+        );
+    });
+
+    it('should evaluate a compiled expression with the bindings of each evaluation', () => {
+        const vars = new Map<string, unknown>([['min', 2]]);
+        const evaluate = compileExpression(
+            "typeof msg === 'undefined' ? -1 : msg + get('min')",
+            vars,
+        );
+
+        expect(evaluate({ msg: 1 })).to.equal(3);
+        expect(evaluate({ msg: 5 })).to.equal(7);
+        expect(evaluate()).to.equal(-1);
+        expect(evaluate({ get: () => 0, msg: 1 })).to.equal(1);
+        expect(evaluate({ msg: 1 })).to.equal(3);
+        expect(() => compileExpression('msg ===', vars)).to.throw(SyntaxError);
+    });
+
+    it('should stop evaluations exceeding the timeout', () => {
+        expect(() =>
+            evaluateExpression('while (true) {}', new Map(), {}, 50),
+        ).to.throw(/timed out/);
+    });
+});
@@ -0,0 +1,109 @@
+import 'mocha';
+import { expect } from 'chai';
+import { mkdirSync, writeFileSync } from 'fs';
+import { RunContext } from '../model/RunContext';
+import { toScenarioReport } from '../model/RunReport';
+import { TestResult } from '../model/TestResult';
+import { generateHtmlReport } from '../reporting/htmlReport';
+
+describe('HTML report', () => {
+    const outDir = './out/html-report';
+
+    const createRunContext = (): RunContext => {
+        const runContext = new RunContext(outDir);
+        runContext.results.set('s1-scenario', [
+            new TestResult({
+                action: 'create <user>',
+                actionName: 'createUser',
+                actionType: 'REST',
+                duration: 120,
+                successful: true,
+                allowFailure: false,
+                payloads: [
+                    { label: 'Request: POST /users', payload: '{"id": 1}' },
+                ],
+            }),
+            new TestResult({
+                action: 'query user',
+                actionName: 'queryUser',
+                actionType: 'REST',
+                duration: 30,
+                successful: false,
+                allowFailure: false,
+                errorMessage: 'Error: validation failed',
+            }),
+        ]);
+        runContext.recordLogEntry('s1-scenario', 'createUser', {
+            timestamp: '2020-01-01T00:00:00.000Z',
+            level: 'debug',
+            message: 'created',
+        });
+        runContext.recordLogEntry('s1-scenario', 'queryUser', {
+            timestamp: '2020-01-01T00:00:01.000Z',
+            level: 'error',
+            message: 'Response: 404 (Not Found)',
+        });
+        return runContext;
+    };
+
+    const generate = (runContext: RunContext): string =>
+        generateHtmlReport(
+            {
+                successful: false,
+                scenarios: [
+                    toScenarioReport(
+                        's1-scenario',
+                        'The first scenario',
+                        runContext.results.get('s1-scenario') ?? [],
+                    ),
+                ],
+                filteredOutScenarios: [],
+                aborted: false,
+            },
+            runContext,
+        );
+
+    it('should contain an overview and every action with its status, payloads and escaped texts', () => {
+        // when
+        const report = generate(createRunContext());
+
+        // then
+        expect(report).to.contain('<a href="#scenario-s1-scenario">');
+        expect(report).to.contain('<td>1/2</td>');
+        expect(report).to.contain('create &lt;user&gt;');
+        expect(report).to.contain('>passed</span>');
+        expect(report).to.contain('>failed</span>');
+        expect(report).to.contain(
+            '<details><summary>Request: POST /users</summary><pre>{&quot;id&quot;: 1}</pre></details>',
+        );
+        expect(report).to.contain('Error: validation failed');
+    });
+
+    it('should only contain the log of the failed actions', () => {
+        // when
+        const report = generate(createRunContext());
+
+        // then
+        expect(report).to.contain('ERROR Response: 404 (Not Found)');
+        expect(report).not.to.contain('DEBUG created');
+    });
+
+    it('should embed the diagrams and not reference any external assets', () => {
+        // given
+        mkdirSync(outDir, { recursive: true });
+        writeFileSync(`${outDir}/_s1-scenario.png`, 'png');
+
+        // when
+        const report = generate(createRunContext());
+
+        // then
+        expect(report).to.contain(
+            `src="data:image/png;base64,${Buffer.from('png').toString(
+                'base64',
+            )}"`,
+        );
+        expect(report).not.to.match(/(src|href)="(https?:)?\/\//);
+        expect(report).not.to.contain('<link');
+        expect(report).not.to.contain('<script');
+    });
+});
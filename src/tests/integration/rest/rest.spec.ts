@@ -16,7 +16,10 @@ import * as fs from 'fs';
 import * as path from 'path';
 
 import { TLSSocket } from 'tls';
-import { runMultipleScenariosWithConfigAsync } from '../../../index';
+import {
+    RunEventEmitter,
+    runMultipleScenariosWithConfigAsync,
+} from '../../../index';
 
 describe('Rest Action', () => {
     const integrationTestBasePath = 'src/tests/integration/rest/resources/';
@@ -63,7 +66,16 @@ describe('Rest Action', () => {
                 [scenarioPath],
             );
 
-            expect(result).to.be.equal(true);
+            expect(result.successful).to.be.equal(true);
+            expect(result.scenarios).to.have.lengthOf(1);
+            expect(result.scenarios[0].name).to.be.equal(
+                's1-restExpectingJsonResponseToBeValid',
+            );
+            expect(result.scenarios[0].actions[0]).to.include({
+                name: 'rest',
+                type: 'REST',
+                status: 'passed',
+            });
         });
 
         it('should fail perform s2', async () => {
@@ -81,7 +93,317 @@ describe('Rest Action', () => {
                 [scenarioPath],
             );
 
-            expect(result).to.be.equal(false);
+            expect(result.successful).to.be.equal(false);
+            expect(result.scenarios[0].successful).to.be.equal(false);
+            expect(result.scenarios[0].actions[0].status).to.be.equal('failed');
+            expect(result.scenarios[0].actions[0].errorMessage).to.contain(
+                '(res.code === 400): expected 400, but was 200',
+            );
+            expect(result.scenarios[0].actions[0].diff).to.equal(
+                '+ expected - actual\n+ 400\n- 200',
+            );
+        });
+
+        it('should write an HTML report containing the payloads and the log of failed actions', async () => {
+            const scenarioPath = `${integrationTestBasePath}scenarios/s2-restExpectingJsonResponseNotToBeValid.yaml`;
+
+            await runMultipleScenariosWithConfigAsync(
+                actionDir,
+                './out/html',
+                envConfigDir,
+                {
+                    numberOfScenariosRunInParallel: 1,
+                    environmentNameToBeUsed: environment,
+                    drawDiagrams: false,
+                    writeHtmlReport: true,
+                },
+                [scenarioPath],
+            );
+
+            const report = fs.readFileSync('./out/html/report.html', 'utf8');
+            expect(report).to.contain(
+                's2-restExpectingJsonResponseNotToBeValid',
+            );
+            expect(report).to.contain('Response: 200 OK');
+            expect(report).to.contain('&quot;code&quot;: 200');
+            expect(report).to.contain(
+                'ERROR Body validation (res.code === 400): false',
+            );
+            expect(report).to.contain('+ 400\n- 200');
+            expect(report).not.to.contain('\u001b');
+            // the logged payloads would bypass the hidden fields
+            expect(report).not.to.contain('DEBUG Response: 200 (OK)');
+        });
+
+        it('should keep the results if the HTML report cannot be written', async () => {
+            const scenarioPath = `${integrationTestBasePath}scenarios/s1-restExpectingJsonResponseToBeValid.yaml`;
+            // a directory in place of the report file makes writing it fail
+            fs.mkdirSync('./out/unwritable/report.html', { recursive: true });
+
+            const result = await runMultipleScenariosWithConfigAsync(
+                actionDir,
+                './out/unwritable',
+                envConfigDir,
+                {
+                    numberOfScenariosRunInParallel: 1,
+                    environmentNameToBeUsed: environment,
+                    drawDiagrams: false,
+                    writeHtmlReport: true,
+                },
+                [scenarioPath],
+            );
+
+            expect(result.successful).to.be.equal(true);
+            expect(result.scenarios).to.have.length(1);
+            expect(result.error).to.contain(
+                'The HTML report could not be written',
+            );
+        });
+
+        it('should skip the actions whose conditions are not met', async () => {
+            const scenarioPath = `${integrationTestBasePath}scenarios/s16-conditionalActions.yaml`;
+
+            const result = await runMultipleScenariosWithConfigAsync(
+                actionDir,
+                outDir,
+                envConfigDir,
+                {
+                    numberOfScenariosRunInParallel: 1,
+                    environmentNameToBeUsed: environment,
+                    drawDiagrams: false,
+                },
+                [scenarioPath],
+            );
+
+            expect(result.successful).to.be.equal(true);
+            const { actions } = result.scenarios[0];
+            expect(actions.map(a => a.status)).to.deep.equal([
+                'ignored',
+                'passed',
+                'skipped',
+                'skipped',
+                'passed',
+            ]);
+            expect(actions[2].errorMessage).to.be.equal(
+                "condition 'if: previous.failed' is not met",
+            );
+            expect(actions[3].errorMessage).to.be.equal(
+                "condition 'unless: {{mode}} === 'fast'' is met",
+            );
+            expect(
+                fs.readFileSync(
+                    `${outDir}/_s16-conditionalActions.input`,
+                    'utf8',
+                ),
+            ).to.contain('Skipped: fallback after a success');
+        });
+
+        it('should invoke a flow with its arguments as a single action', async () => {
+            const scenarioPath = `${integrationTestBasePath}scenarios/s21-flows.yaml`;
+
+            const result = await runMultipleScenariosWithConfigAsync(
+                actionDir,
+                outDir,
+                envConfigDir,
+                {
+                    numberOfScenariosRunInParallel: 1,
+                    environmentNameToBeUsed: environment,
+                    drawDiagrams: false,
+                    flowDir: `${integrationTestBasePath}flows`,
+                },
+                [scenarioPath],
+            );
+
+            expect(result.successful).to.be.equal(true);
+            const { actions } = result.scenarios[0];
+            expect(actions.map(a => a.status)).to.deep.equal([
+                'passed',
+                'passed',
+            ]);
+            expect(actions[0].description).to.be.equal(
+                'greets after requesting the service',
+            );
+            expect(
+                fs.readFileSync(`${outDir}/_s21-flows.input`, 'utf8'),
+            ).to.contain('flow: greet');
+        });
+
+        it('should invoke the steps once per iteration', async () => {
+            const scenarioPath = `${integrationTestBasePath}scenarios/s17-loops.yaml`;
+
+            const result = await runMultipleScenariosWithConfigAsync(
+                actionDir,
+                outDir,
+                envConfigDir,
+                {
+                    numberOfScenariosRunInParallel: 1,
+                    environmentNameToBeUsed: environment,
+                    drawDiagrams: false,
+                },
+                [scenarioPath],
+            );
+
+            expect(result.successful).to.be.equal(true);
+            const { actions } = result.scenarios[0];
+            expect(
+                actions.map(a => `${a.description}: ${a.status}`),
+            ).to.deep.equal([
+                'collect ids: passed',
+                'remember id [0]: passed',
+                'remember id [1]: passed',
+                'remember id [2]: passed',
+                'request [0]: passed',
+                'request [1]: passed',
+                'all ids remembered: passed',
+            ]);
+            expect(
+                fs.readFileSync(`${outDir}/_s17-loops.input`, 'utf8'),
+            ).to.contain('== remember id [1]: "b" ==');
+        });
+
+        it('should emit the lifecycle events and invoke the action hooks', async () => {
+            const scenarioPath = `${integrationTestBasePath}scenarios/s1-restExpectingJsonResponseToBeValid.yaml`;
+            const observed: string[] = [];
+            const events = new RunEventEmitter();
+            events.on('runStart', ({ scenarios }) =>
+                observed.push(`runStart ${scenarios}`),
+            );
+            events.on('scenarioStart', ({ scenario }) =>
+                observed.push(`scenarioStart ${scenario}`),
+            );
+            events.on('actionStart', ({ action, type }) =>
+                observed.push(`actionStart ${action} ${type}`),
+            );
+            events.on('actionEnd', ({ action, result, duration }) => {
+                expect(duration).to.be.equal(result.duration);
+                observed.push(`actionEnd ${action} ${result.status}`);
+            });
+            events.on('scenarioEnd', ({ report }) =>
+                observed.push(`scenarioEnd ${report.successful}`),
+            );
+            events.on('runEnd', ({ report }) =>
+                observed.push(`runEnd ${report.successful}`),
+            );
+
+            await runMultipleScenariosWithConfigAsync(
+                actionDir,
+                outDir,
+                envConfigDir,
+                {
+                    numberOfScenariosRunInParallel: 1,
+                    environmentNameToBeUsed: environment,
+                    drawDiagrams: false,
+                    events,
+                    hooks: {
+                        beforeAction: (scenario, action) => {
+                            observed.push(`beforeAction ${action.name}`);
+                        },
+                        afterAction: async (scenario, action, result) => {
+                            observed.push(
+                                `afterAction ${action.name} ${result.status}`,
+                            );
+                        },
+                    },
+                },
+                [scenarioPath],
+            );
+
+            expect(observed).to.deep.equal([
+                'runStart s1-restExpectingJsonResponseToBeValid',
+                'scenarioStart s1-restExpectingJsonResponseToBeValid',
+                'actionStart rest REST',
+                'beforeAction rest',
+                'actionEnd rest passed',
+                'afterAction rest passed',
+                'scenarioEnd true',
+                'runEnd true',
+            ]);
+        });
+
+        it('should fail the action if the beforeAction hook fails', async () => {
+            const scenarioPath = `${integrationTestBasePath}scenarios/s1-restExpectingJsonResponseToBeValid.yaml`;
+
+            const result = await runMultipleScenariosWithConfigAsync(
+                actionDir,
+                outDir,
+                envConfigDir,
+                {
+                    numberOfScenariosRunInParallel: 1,
+                    environmentNameToBeUsed: environment,
+                    drawDiagrams: false,
+                    hooks: {
+                        beforeAction: () => {
+                            throw new Error('no database connection');
+                        },
+                    },
+                },
+                [scenarioPath],
+            );
+
+            expect(result.successful).to.be.equal(false);
+            expect(result.scenarios[0].actions[0].errorMessage).to.contain(
+                'The beforeAction hook failed: Error: no database connection',
+            );
+        });
+    });
+
+    describe('Concurrent runs', () => {
+        let server: HTTPServer | undefined;
+
+        before(() => {
+            server = createHTTPServer((request, response) => {
+                response.setHeader('Content-Type', 'application/json');
+                response.end(JSON.stringify({ code: 200 }));
+            });
+            server.listen(8080);
+        });
+
+        after(() => {
+            server && server.close();
+        });
+
+        it('should isolate results and output directories of concurrent runs', async () => {
+            const runConfig = {
+                numberOfScenariosRunInParallel: 1,
+                environmentNameToBeUsed: environment,
+                drawDiagrams: false,
+            };
+
+            const [firstResult, secondResult] = await Promise.all([
+                runMultipleScenariosWithConfigAsync(
+                    actionDir,
+                    './out/run-1',
+                    envConfigDir,
+                    runConfig,
+                    [
+                        `${integrationTestBasePath}scenarios/s1-restExpectingJsonResponseToBeValid.yaml`,
+                    ],
+                ),
+                runMultipleScenariosWithConfigAsync(
+                    actionDir,
+                    './out/run-2',
+                    envConfigDir,
+                    runConfig,
+                    [
+                        `${integrationTestBasePath}scenarios/s2-restExpectingJsonResponseNotToBeValid.yaml`,
+                    ],
+                ),
+            ]);
+
+            expect(firstResult.successful).to.be.equal(true);
+            expect(firstResult.scenarios).to.have.lengthOf(1);
+            expect(secondResult.successful).to.be.equal(false);
+            expect(secondResult.scenarios).to.have.lengthOf(1);
+            expect(
+                fs.existsSync(
+                    './out/run-1/_s1-restExpectingJsonResponseToBeValid.input',
+                ),
+            ).to.be.equal(true);
+            expect(
+                fs.existsSync(
+                    './out/run-2/_s2-restExpectingJsonResponseNotToBeValid.input',
+                ),
+            ).to.be.equal(true);
         });
     });
 
@@ -142,7 +464,7 @@ describe('Rest Action', () => {
                 [scenarioPath],
             );
 
-            expect(result).to.be.equal(true);
+            expect(result.successful).to.be.equal(true);
         });
 
         it('should successfully perform s4', async () => {
@@ -160,7 +482,7 @@ describe('Rest Action', () => {
                 [scenarioPath],
             );
 
-            expect(result).to.be.equal(false);
+            expect(result.successful).to.be.equal(false);
         });
 
         it('should successfully perform s9', async () => {
@@ -178,7 +500,7 @@ describe('Rest Action', () => {
                 [scenarioPath],
             );
 
-            expect(result).to.be.equal(true);
+            expect(result.successful).to.be.equal(true);
         });
 
         it('should successfully perform s10', async () => {
@@ -196,7 +518,7 @@ describe('Rest Action', () => {
                 [scenarioPath],
             );
 
-            expect(result).to.be.equal(true);
+            expect(result.successful).to.be.equal(true);
         });
     });
 
@@ -237,7 +559,7 @@ describe('Rest Action', () => {
                 [scenarioPath],
             );
 
-            expect(result).to.be.equal(true);
+            expect(result.successful).to.be.equal(true);
         });
 
         it('should be handled as Buffer, if binary response is expected', async () => {
@@ -255,7 +577,7 @@ describe('Rest Action', () => {
                 [scenarioPath],
             );
 
-            expect(result).to.be.equal(true);
+            expect(result.successful).to.be.equal(true);
         });
     });
 
@@ -297,7 +619,7 @@ describe('Rest Action', () => {
                 [scenarioPath],
             );
 
-            expect(result).to.be.equal(true);
+            expect(result.successful).to.be.equal(true);
         });
 
         it('should be handled as Buffer, if binary response is expected', async () => {
@@ -315,7 +637,7 @@ describe('Rest Action', () => {
                 [scenarioPath],
             );
 
-            expect(result).to.be.equal(true);
+            expect(result.successful).to.be.equal(true);
         });
 
         it('should fail validation if different data is returned than is expected', async () => {
@@ -333,7 +655,7 @@ describe('Rest Action', () => {
                 [scenarioPath],
             );
 
-            expect(result).to.be.equal(false);
+            expect(result.successful).to.be.equal(false);
         });
     });
 
@@ -375,7 +697,7 @@ describe('Rest Action', () => {
                 [scenarioPath],
             );
 
-            expect(result).to.be.equal(true);
+            expect(result.successful).to.be.equal(true);
         });
 
         it('should be handled as Buffer, if binary response is expected', async () => {
@@ -393,7 +715,7 @@ describe('Rest Action', () => {
                 [scenarioPath],
             );
 
-            expect(result).to.be.equal(true);
+            expect(result.successful).to.be.equal(true);
         });
     });
 
@@ -437,7 +759,7 @@ describe('Rest Action', () => {
                 [scenarioPath],
             );
 
-            expect(result).to.be.equal(true);
+            expect(result.successful).to.be.equal(true);
         });
     });
 
@@ -480,7 +802,297 @@ describe('Rest Action', () => {
                 [scenarioPath],
             );
 
-            expect(result).to.be.equal(true);
+            expect(result.successful).to.be.equal(true);
+        });
+    });
+
+    describe('Responses validated by JSONPaths', () => {
+        let server: HTTPServer | undefined;
+
+        before(() => {
+            const requestHandler: RequestListener = (request, response) => {
+                response.setHeader('Content-Type', 'application/json');
+                response.end(
+                    JSON.stringify({
+                        items: [
+                            { type: 'a', id: 1, name: 'first' },
+                            { type: 'x', id: 2, name: 'second' },
+                        ],
+                    }),
+                );
+            };
+
+            server = createHTTPServer(requestHandler);
+            server.listen(8080);
+        });
+
+        after(() => {
+            server && server.close();
+        });
+
+        it('should assert and extract values by JSONPaths', async () => {
+            const scenarioPath = `${integrationTestBasePath}scenarios/s22-jsonPath.yaml`;
+
+            const result = await runMultipleScenariosWithConfigAsync(
+                actionDir,
+                outDir,
+                envConfigDir,
+                {
+                    numberOfScenariosRunInParallel: 1,
+                    environmentNameToBeUsed: environment,
+                    drawDiagrams: false,
+                },
+                [scenarioPath],
+            );
+
+            expect(result.successful).to.be.equal(true);
+            expect(
+                result.scenarios[0].actions.map(a => a.status),
+            ).to.deep.equal(['passed', 'passed']);
+        });
+
+        it('should report the expected and the actual value of a failed assertion', async () => {
+            const scenarioPath = `${integrationTestBasePath}scenarios/s23-jsonPathFailure.yaml`;
+
+            const result = await runMultipleScenariosWithConfigAsync(
+                actionDir,
+                outDir,
+                envConfigDir,
+                {
+                    numberOfScenariosRunInParallel: 1,
+                    environmentNameToBeUsed: environment,
+                    drawDiagrams: false,
+                },
+                [scenarioPath],
+            );
+
+            expect(result.successful).to.be.equal(false);
+            expect(result.scenarios[0].actions[0].errorMessage).to.contain(
+                '\'$.items[0].name\' equals: expected "second", but was "first"',
+            );
+            expect(result.scenarios[0].actions[0].diff).to.equal(
+                '+ expected - actual\n+ "second"\n- "first"',
+            );
+        });
+    });
+
+    describe('Eventually consistent responses', () => {
+        let server: HTTPServer | undefined;
+
+        before(() => {
+            const port = 8080;
+            let numberOfRequests = 0;
+
+            const requestHandler = (
+                request: IncomingMessage,
+                response: ServerResponse,
+            ): void => {
+                numberOfRequests += 1;
+                response.setHeader('Content-Type', 'application/json');
+                response.end(JSON.stringify({ ready: numberOfRequests >= 3 }));
+            };
+
+            server = createHTTPServer(requestHandler);
+            server.listen(port);
+        });
+
+        after(() => {
+            server && server.close();
+        });
+
+        it('should re-invoke an action until it passes or its deadline is reached', async () => {
+            const scenarioPath = `${integrationTestBasePath}scenarios/s20-restPolling.yaml`;
+
+            const result = await runMultipleScenariosWithConfigAsync(
+                actionDir,
+                outDir,
+                envConfigDir,
+                {
+                    numberOfScenariosRunInParallel: 1,
+                    environmentNameToBeUsed: environment,
+                    drawDiagrams: false,
+                },
+                [scenarioPath],
+            );
+
+            expect(result.successful).to.be.equal(false);
+            const [ready, busy] = result.scenarios[0].actions;
+            expect(ready.status).to.be.equal('passed');
+            expect(busy.status).to.be.equal('failed');
+            expect(busy.errorMessage).to.match(
+                /Did not pass within 0.2 seconds \(\d+ attempts\)/,
+            );
+            const diagramInput = fs
+                .readFileSync(`${outDir}/_s20-restPolling.input`)
+                .toString();
+            expect(diagramInput).to.contain('Passed after 3 attempt(s)');
+            // only the request and response of the last attempt are drawn
+            const [, readyGroup] = diagramInput.split(
+                'group until passed: until ready (3 attempt(s))',
+            );
+            expect(
+                readyGroup.split('\nend\n')[0].match(/ALT -> /g),
+            ).to.have.lengthOf(1);
+        });
+    });
+
+    describe('Slow responses', () => {
+        let server: HTTPServer | undefined;
+
+        before(() => {
+            const port = 8080;
+
+            const requestHandler = (
+                request: IncomingMessage,
+                response: ServerResponse,
+            ): void => {
+                setTimeout(() => response.end(), 1000);
+            };
+
+            server = createHTTPServer(requestHandler);
+            server.listen(port);
+        });
+
+        after(() => {
+            server && server.close();
+        });
+
+        it('should cancel an action after its timeout and skip the following actions', async () => {
+            const scenarioPath = `${integrationTestBasePath}scenarios/s13-restTimingOut.yaml`;
+
+            const result = await runMultipleScenariosWithConfigAsync(
+                actionDir,
+                outDir,
+                envConfigDir,
+                {
+                    numberOfScenariosRunInParallel: 1,
+                    environmentNameToBeUsed: environment,
+                    drawDiagrams: false,
+                },
+                [scenarioPath],
+            );
+
+            expect(result.successful).to.be.equal(false);
+            const [rest, node] = result.scenarios[0].actions;
+            expect(rest.status).to.be.equal('timedOut');
+            expect(rest.errorMessage).to.contain(
+                'Action timed out after 0.2 seconds',
+            );
+            expect(rest.duration).to.be.lessThan(1000);
+            expect(node.status).to.be.equal('skipped');
+        });
+
+        it('should cancel the running action after the scenario timeout but still invoke clean up actions', async () => {
+            const scenarioPath = `${integrationTestBasePath}scenarios/s14-scenarioTimingOut.yaml`;
+
+            const result = await runMultipleScenariosWithConfigAsync(
+                actionDir,
+                outDir,
+                envConfigDir,
+                {
+                    numberOfScenariosRunInParallel: 1,
+                    environmentNameToBeUsed: environment,
+                    drawDiagrams: false,
+                },
+                [scenarioPath],
+            );
+
+            expect(result.successful).to.be.equal(false);
+            const [rest, node] = result.scenarios[0].actions;
+            expect(rest.status).to.be.equal('timedOut');
+            expect(rest.errorMessage).to.contain(
+                'Scenario timed out after 0.2 seconds',
+            );
+            expect(node.status).to.be.equal('passed');
+        });
+
+        it('should invoke parallel blocks and background actions concurrently', async () => {
+            const scenarioPath = `${integrationTestBasePath}scenarios/s18-parallelActions.yaml`;
+            const startedAt = Date.now();
+
+            const result = await runMultipleScenariosWithConfigAsync(
+                actionDir,
+                outDir,
+                envConfigDir,
+                {
+                    numberOfScenariosRunInParallel: 1,
+                    environmentNameToBeUsed: environment,
+                    drawDiagrams: false,
+                },
+                [scenarioPath],
+            );
+
+            expect(Date.now() - startedAt).to.be.lessThan(1800);
+            expect(result.successful).to.be.equal(true);
+            const statusOf = (description: string): string | undefined =>
+                result.scenarios[0].actions.find(
+                    a => a.description === description,
+                )?.status;
+            expect(statusOf('background request')).to.be.equal('passed');
+            expect(statusOf('first parallel request')).to.be.equal('passed');
+            expect(statusOf('second parallel request')).to.be.equal('passed');
+            expect(statusOf('fast action')).to.be.equal('passed');
+            const slowRequest = result.scenarios[0].actions.find(
+                a => a.description === 'slow request',
+            );
+            expect(slowRequest?.status).to.be.equal('skipped');
+            expect(slowRequest?.errorMessage).to.be.equal(
+                "Cancelled because 'fast action' finished the race first",
+            );
+        });
+
+        it('should block at an await step until the background action is finished', async () => {
+            const scenarioPath = `${integrationTestBasePath}scenarios/s19-awaitBackgroundAction.yaml`;
+
+            const result = await runMultipleScenariosWithConfigAsync(
+                actionDir,
+                outDir,
+                envConfigDir,
+                {
+                    numberOfScenariosRunInParallel: 1,
+                    environmentNameToBeUsed: environment,
+                    drawDiagrams: false,
+                },
+                [scenarioPath],
+            );
+
+            expect(result.successful).to.be.equal(true);
+            const { actions } = result.scenarios[0];
+            expect(actions.map(a => a.description)).to.deep.equal([
+                'while the request is running',
+                'background request',
+                "Await 'request'",
+                'after the request',
+            ]);
+            expect(actions.every(a => a.status === 'passed')).to.be.equal(true);
+            expect(actions[2].duration).to.be.greaterThan(900);
+        });
+
+        it('should abort the run on SIGINT and still report the unfinished actions', async () => {
+            const scenarioPath = `${integrationTestBasePath}scenarios/s15-restAborted.yaml`;
+
+            const run = runMultipleScenariosWithConfigAsync(
+                actionDir,
+                outDir,
+                envConfigDir,
+                {
+                    numberOfScenariosRunInParallel: 1,
+                    environmentNameToBeUsed: environment,
+                    drawDiagrams: false,
+                },
+                [scenarioPath],
+            );
+            setTimeout(() => process.emit('SIGINT', 'SIGINT'), 200);
+            const result = await run;
+
+            expect(result.successful).to.be.equal(false);
+            expect(result.aborted).to.be.equal(true);
+            const [rest, node] = result.scenarios[0].actions;
+            expect(rest.status).to.be.equal('aborted');
+            expect(rest.errorMessage).to.contain('Run aborted by SIGINT');
+            expect(rest.duration).to.be.lessThan(1000);
+            expect(node.status).to.be.equal('aborted');
+            expect(process.listenerCount('SIGINT')).to.be.equal(0);
         });
     });
 });
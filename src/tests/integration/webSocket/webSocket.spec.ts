@@ -40,7 +40,7 @@ describe('WebSocket Action', () => {
             [scenarioPath],
         );
 
-        expect(result).to.be.equal(true);
+        expect(result.successful).to.be.equal(true);
     });
 
     it('should fail performing s2', async () => {
@@ -59,6 +59,52 @@ describe('WebSocket Action', () => {
             [scenarioPath],
         );
 
-        expect(result).to.be.equal(false);
+        expect(result.successful).to.be.equal(false);
+    });
+
+    it('should validate the received messages and extract variables from them', async () => {
+        const scenarioPath =
+            'src/tests/integration/webSocket/resources/scenarios/s3-webSocketValidatingTheMessageByJsonPaths.yaml';
+
+        const result = await runMultipleScenariosWithConfigAsync(
+            actionDir,
+            outDir,
+            envConfigDir,
+            {
+                numberOfScenariosRunInParallel: 1,
+                environmentNameToBeUsed: environment,
+                drawDiagrams: false,
+            },
+            [scenarioPath],
+        );
+
+        expect(result.successful).to.be.equal(true);
+        expect(result.scenarios[0].actions.map(a => a.status)).to.deep.equal([
+            'passed',
+            'passed',
+            'passed',
+        ]);
+    });
+
+    it('should fail if a received message is invalid', async () => {
+        const scenarioPath =
+            'src/tests/integration/webSocket/resources/scenarios/s4-webSocketExpectingAnInvalidMessage.yaml';
+
+        const result = await runMultipleScenariosWithConfigAsync(
+            actionDir,
+            outDir,
+            envConfigDir,
+            {
+                numberOfScenariosRunInParallel: 1,
+                environmentNameToBeUsed: environment,
+                drawDiagrams: false,
+            },
+            [scenarioPath],
+        );
+
+        expect(result.successful).to.be.equal(false);
+        expect(result.scenarios[0].actions[0].errorMessage).to.contain(
+            "'$.foo' equals: expected 43, but was 42",
+        );
     });
 });
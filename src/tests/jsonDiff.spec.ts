@@ -0,0 +1,46 @@
+import 'mocha';
+import { expect } from 'chai';
+import { colorDiff, diffJson, formatDiff } from '../jsonDiff';
+
+describe('JSON diff', () => {
+    it('should keep the lines of both values and mark the differing ones', () => {
+        const diff = diffJson(
+            { id: 1, name: 'bob', roles: ['admin'] },
+            { roles: ['admin', 'dev'], id: 1, name: 'alt' },
+        );
+
+        expect(formatDiff(diff)).to.equal(
+            [
+                '+ expected - actual',
+                '  {',
+                '    "id": 1,',
+                '+   "name": "bob",',
+                '-   "name": "alt",',
+                '    "roles": [',
+                '+     "admin"',
+                '-     "admin",',
+                '-     "dev"',
+                '    ]',
+                '  }',
+            ].join('\n'),
+        );
+    });
+
+    it('should diff scalar and undefined values', () => {
+        expect(diffJson(2, undefined)).to.deep.equal([
+            { kind: 'expected', text: '2' },
+            { kind: 'actual', text: 'undefined' },
+        ]);
+        expect(diffJson('a', 'a')).to.deep.equal([
+            { kind: 'both', text: '"a"' },
+        ]);
+    });
+
+    it('should color the expected lines green and the actual ones red', () => {
+        expect(colorDiff(diffJson(1, 2)).split('\n')).to.deep.equal([
+            '\u001b[32m+ expected \u001b[31m- actual\u001b[39m',
+            '\u001b[32m+ 1\u001b[39m',
+            '\u001b[31m- 2\u001b[39m',
+        ]);
+    });
+});
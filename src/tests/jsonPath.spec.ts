@@ -0,0 +1,91 @@
+import 'mocha';
+import { expect } from 'chai';
+import { evaluateJsonPath, extractJsonPath } from '../jsonPath';
+import { JsonPathError } from '../model/error/JsonPathError';
+
+describe('JSONPath', () => {
+    const document = {
+        store: {
+            name: 'alt',
+            'opening-hours': { from: 8, to: 18 },
+            items: [
+                { type: 'book', id: 1, tags: ['new'] },
+                { type: 'x', id: 2 },
+                { type: 'book', id: 3, price: { amount: 5 } },
+            ],
+        },
+    };
+    const valuesOf = (path: string): unknown[] =>
+        evaluateJsonPath(path, document).values;
+
+    it('should select names and indices', () => {
+        expect(valuesOf('$.store.name')).to.deep.equal(['alt']);
+        expect(valuesOf("$['store']['opening-hours'].to")).to.deep.equal([18]);
+        expect(valuesOf('$.store.items[1].id')).to.deep.equal([2]);
+        expect(valuesOf('$.store.items[-1].id')).to.deep.equal([3]);
+        expect(valuesOf('$.store.items[5].id')).to.deep.equal([]);
+        expect(valuesOf('$')).to.deep.equal([document]);
+    });
+
+    it('should select wildcards, unions and slices', () => {
+        expect(valuesOf('$.store.items[*].id')).to.deep.equal([1, 2, 3]);
+        expect(valuesOf('$.store.items.*.type')).to.deep.equal([
+            'book',
+            'x',
+            'book',
+        ]);
+        expect(valuesOf('$.store.items[0,2].id')).to.deep.equal([1, 3]);
+        expect(valuesOf("$.store['name','missing']")).to.deep.equal(['alt']);
+        expect(valuesOf('$.store.items[1:].id')).to.deep.equal([2, 3]);
+        expect(valuesOf('$.store.items[::-2].id')).to.deep.equal([3, 1]);
+    });
+
+    it('should select descendants and filter by expressions', () => {
+        expect(valuesOf('$..id')).to.deep.equal([1, 2, 3]);
+        expect(valuesOf('$..amount')).to.deep.equal([5]);
+        expect(valuesOf("$.store.items[?(@.type == 'x')].id")).to.deep.equal([
+            2,
+        ]);
+        expect(
+            valuesOf('$.store.items[?(@.id === 1 || @.price.amount > 1)].id'),
+        ).to.deep.equal([1, 3]);
+        expect(
+            valuesOf("$.store.items[?(@.type == 'x@y' || @.tags)].id"),
+        ).to.deep.equal([1]);
+    });
+
+    it('should tell whether a path matches a single value at most', () => {
+        expect(evaluateJsonPath('$.store.items[0]', document).definite).to.be
+            .true;
+        expect(evaluateJsonPath('$.store.items[0,1]', document).definite).to.be
+            .false;
+        expect(evaluateJsonPath('$..id', document).definite).to.be.false;
+    });
+
+    it('should extract the value of a definite path as it is and the values of other paths as a list', () => {
+        expect(extractJsonPath('$.store.items[1].id', document)).to.equal(2);
+        expect(
+            extractJsonPath("$.store.items[?(@.type == 'x')].id", document),
+        ).to.deep.equal([2]);
+        expect(
+            extractJsonPath('$.store.items[0:2].id', document),
+        ).to.deep.equal([1, 2]);
+        expect(() => extractJsonPath('$.store.owner', document)).to.throw(
+            JsonPathError,
+            "JSONPath '$.store.owner' matched nothing",
+        );
+    });
+
+    it('should reject malformed paths', () => {
+        expect(() => valuesOf('store.name')).to.throw(
+            "JSONPath 'store.name' is invalid: it has to start with '$'",
+        );
+        expect(() => valuesOf('$.items[0')).to.throw(
+            "JSONPath '$.items[0' is invalid: expected ']' at position 9",
+        );
+        expect(() => valuesOf('$.store.items[?(@.id ==)]')).to.throw(
+            JsonPathError,
+            'has an invalid filter',
+        );
+    });
+});
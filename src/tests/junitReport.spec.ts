@@ -0,0 +1,95 @@
+import 'mocha';
+import { expect } from 'chai';
+import { TestResult } from '../model/TestResult';
+import { escapeXml, generateJUnitReport } from '../reporting/junitReport';
+
+describe('JUnit report', () => {
+    it('should escape XML special characters', () => {
+        expect(escapeXml(`<a href="x">'b' & c</a>`)).to.equal(
+            '&lt;a href=&quot;x&quot;&gt;&apos;b&apos; &amp; c&lt;/a&gt;',
+        );
+    });
+
+    it('should strip the control characters XML does not allow', () => {
+        expect(
+            escapeXml(
+                '\u001b[31mexpected\u001b[0m\tbinary: \x00\x01\x0B\x0C\x1F\n',
+            ),
+        ).to.equal('expected\tbinary: \n');
+    });
+
+    it('should create one testsuite per scenario and one testcase per result', () => {
+        // given
+        const results = new Map<string, TestResult[]>([
+            [
+                's1-scenario',
+                [
+                    new TestResult({
+                        action: 'create user',
+                        duration: 1500,
+                        successful: true,
+                        allowFailure: false,
+                    }),
+                    new TestResult({
+                        action: 'query user',
+                        duration: 250,
+                        successful: false,
+                        allowFailure: false,
+                        errorMessage: 'Error: validation failed',
+                    }),
+                    new TestResult({
+                        action: 'delete user',
+                        duration: 0,
+                        successful: false,
+                        allowFailure: false,
+                        skipped: true,
+                    }),
+                    new TestResult({
+                        action: 'wait for event',
+                        duration: 5000,
+                        successful: false,
+                        allowFailure: false,
+                        timedOut: true,
+                        errorMessage:
+                            'TimeoutError: Action timed out after 5 seconds',
+                    }),
+                ],
+            ],
+            [
+                's2-scenario',
+                [
+                    new TestResult({
+                        action: 'optional call',
+                        duration: 10,
+                        successful: false,
+                        allowFailure: true,
+                    }),
+                ],
+            ],
+        ]);
+
+        // when
+        const report = generateJUnitReport(results);
+
+        // then
+        expect(report).to.contain(
+            '<testsuite name="s1-scenario" tests="4" failures="2" skipped="1" time="6.750">',
+        );
+        expect(report).to.contain(
+            '<testcase name="create user" classname="s1-scenario" time="1.500"/>',
+        );
+        expect(report).to.contain(
+            '<failure message="Error: validation failed">Error: validation failed</failure>',
+        );
+        expect(report).to.contain(
+            '<failure message="TimeoutError: Action timed out after 5 seconds" type="timeout">',
+        );
+        expect(report).to.contain(
+            '<skipped message="Skipped after a previous failure"/>',
+        );
+        expect(report).to.contain(
+            '<testsuite name="s2-scenario" tests="1" failures="0" skipped="1" time="0.010">',
+        );
+        expect(report).to.contain('<skipped message="Action failed"/>');
+    });
+});
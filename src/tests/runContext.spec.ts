@@ -0,0 +1,79 @@
+import 'mocha';
+import { expect } from 'chai';
+import { RunContext } from '../model/RunContext';
+import { AbortError } from '../model/error/AbortError';
+import { TimerAction } from '../model/TimerAction';
+
+describe('Run context', () => {
+    const pendingCallback = (): {
+        promise: Promise<unknown>;
+        cancel: () => void;
+        cancelled: boolean;
+    } => {
+        const callback = {
+            promise: new Promise(() => {}),
+            cancelled: false,
+            cancel: () => {
+                callback.cancelled = true;
+            },
+        };
+        return callback;
+    };
+
+    it('should cancel in-flight actions and reject them when aborted', async () => {
+        const runContext = new RunContext();
+        const callback = pendingCallback();
+        const { promise } = runContext.abortable(callback);
+
+        runContext.abort('Run aborted by SIGINT');
+        const error = await promise.then(
+            () => expect.fail('should have been aborted'),
+            e => e,
+        );
+
+        expect(error).to.be.instanceOf(AbortError);
+        expect(error.message).to.be.equal('Run aborted by SIGINT');
+        expect(callback.cancelled).to.be.true;
+        expect(runContext.aborted).to.be.true;
+    });
+
+    it('should immediately reject actions wrapped after the run was aborted', async () => {
+        const runContext = new RunContext();
+        runContext.abort('Run aborted by SIGTERM');
+        const callback = pendingCallback();
+
+        const error = await runContext.abortable(callback).promise.then(
+            () => expect.fail('should have been aborted'),
+            e => e,
+        );
+
+        expect(error.message).to.be.equal('Run aborted by SIGTERM');
+        expect(callback.cancelled).to.be.true;
+    });
+
+    it('should keep the first reason if aborted multiple times', () => {
+        const runContext = new RunContext();
+
+        runContext.abort('Run aborted by SIGINT');
+        runContext.abort('Run aborted by SIGTERM');
+
+        expect(runContext.abortReason).to.be.equal('Run aborted by SIGINT');
+    });
+
+    it('should keep the payloads of an action shared by several scenarios apart', () => {
+        const runContext = new RunContext();
+        // e.g. an action imported by both scenarios
+        const action = new TimerAction('wait', 'wait', { durationInSec: 1 });
+
+        runContext.recordPayload('s1', action, 'Request', 'first');
+        runContext.recordPayload('s2', action, 'Request', 'second');
+
+        expect(runContext.takePayloads('s1', action)).to.deep.equal([
+            { label: 'Request', payload: 'first' },
+        ]);
+        expect(runContext.takePayloads('s1', action)).to.be.empty;
+        expect(runContext.takePayloads('s2', action)).to.deep.equal([
+            { label: 'Request', payload: 'second' },
+        ]);
+    });
+});
@@ -1,6 +1,11 @@
 import 'mocha';
 import { expect } from 'chai';
-import { loadAllScenarios, loadScenariosById } from '../scenarioLoading';
+import {
+    filterScenariosByTags,
+    loadAllScenarios,
+    loadScenariosById,
+} from '../scenarioLoading';
+import { ImportCycleError } from '../model/error/ImportCycleError';
 import { ActionType } from '../model/ActionType';
 import { RestAction } from '../model/RestAction';
 import { ActionCallback } from '../model/ActionCallback';
@@ -206,4 +211,68 @@ describe('Scenario loading', () => {
             'test something',
         );
     });
+
+    it('should resolve nested imports independently of the file order and from a shared directory', () => {
+        const testActionCatalog = ['do-something-before', 'do-something-after']
+            .map(name => ({
+                name,
+                description: '',
+                type: ActionType.TIMER,
+                invoke: dummyActionCallback,
+                invokeEvenOnFail: false,
+                allowFailure: false,
+            }))
+            .concat({
+                name: 'do-something',
+                description: '',
+                type: ActionType.REST,
+                invoke: dummyActionCallback,
+                invokeEvenOnFail: false,
+                allowFailure: false,
+            });
+
+        const result = loadAllScenarios(
+            'src/tests/resources/importedScenarios',
+            testActionCatalog,
+            undefined,
+            'src/tests/resources/sharedScenarios',
+        );
+
+        expect(result.map(s => s.name)).to.deep.equal(['s1-main', 's9-setup']);
+        expect(result[0].actions.map(a => a.name)).to.deep.equal([
+            'do-something-before',
+            'do-something-before',
+            'do-something-after',
+            'do-something',
+        ]);
+    });
+
+    it('should reject cyclic imports', () => {
+        expect(() =>
+            loadAllScenarios('src/tests/resources/cyclicScenarios', []),
+        ).to.throw(
+            ImportCycleError,
+            'Cyclic scenario import: s2-second -> s3-third -> s2-second',
+        );
+    });
+
+    it('should be able to parse scenario tags', () => {
+        const result = loadScenariosById(
+            `${TEST_SCENARIO_PATH}/s1-testScenario.yaml`,
+            [],
+        );
+        expect(result[0].tags).to.deep.equal(['smoke', 'user']);
+    });
+
+    it('should filter scenarios by include and exclude tag expressions', () => {
+        const scenarios = loadAllScenarios(TEST_SCENARIO_PATH, []);
+
+        const { selected, filteredOut } = filterScenariosByTags(scenarios, {
+            includeTags: 'smoke || slow',
+            excludeTags: 'load',
+        });
+
+        expect(selected.map(s => s.name)).to.deep.equal(['s1-testScenario']);
+        expect(filteredOut).to.have.lengthOf(scenarios.length - 1);
+    });
 });
@@ -0,0 +1,253 @@
+import 'mocha';
+import { expect } from 'chai';
+import { loadAllActions } from '../actionLoading';
+import {
+    loadAllScenarios,
+    loadScenariosById,
+    validateFlowDefinition,
+    validateScenarioDefinition,
+} from '../scenarioLoading';
+import { SchemaValidationError } from '../model/error/SchemaValidationError';
+import { validateAgainstSchema } from '../schemaValidation';
+import {
+    AMQP_LISTEN_ACTION_SCHEMA,
+    REST_ACTION_SCHEMA,
+} from '../schemas/actionSchemas';
+import { SCENARIO_SCHEMA } from '../schemas/scenarioSchema';
+
+describe('Schema validation', () => {
+    const envConfig = { 'my-service': 'localhost:8080' };
+
+    const schemaErrorsOf = (load: () => unknown): string[] => {
+        try {
+            load();
+        } catch (e) {
+            if (e instanceof SchemaValidationError) return e.errors;
+            throw e;
+        }
+        throw new Error('Expected a SchemaValidationError');
+    };
+
+    it('should accept valid definitions', () => {
+        expect(
+            validateAgainstSchema(
+                REST_ACTION_SCHEMA,
+                {
+                    type: 'REST',
+                    service: 'my-service',
+                    method: 'POST',
+                    expectedStatusCodes: [201],
+                    diagramConfiguration: { hiddenFields: ['password'] },
+                },
+                'create-user.yaml',
+            ),
+        ).to.be.empty;
+        expect(
+            validateAgainstSchema(
+                SCENARIO_SCHEMA,
+                {
+                    description: 'test',
+                    tags: 'smoke',
+                    actions: [{ name: 'a' }],
+                },
+                's1.yaml',
+            ),
+        ).to.be.empty;
+    });
+
+    it('should only accept assertions checking either a path or a value', () => {
+        const errorsOf = (responseValidation: unknown[]): string[] =>
+            validateAgainstSchema(
+                REST_ACTION_SCHEMA,
+                {
+                    type: 'REST',
+                    service: 'my-service',
+                    method: 'GET',
+                    responseValidation,
+                },
+                'get-user.yaml',
+            );
+
+        expect(
+            errorsOf([
+                'res.id === 1',
+                { path: '$.name', matchesRegex: '^a', type: 'string' },
+                { value: 'res.roles', contains: 'admin', count: 2 },
+            ]),
+        ).to.be.empty;
+        expect(errorsOf([{ path: '$.name', value: 'res.name', equals: 1 }])).not
+            .to.be.empty;
+        expect(errorsOf([{ equals: 1 }])).not.to.be.empty;
+        expect(errorsOf([{ path: '$.name', type: 'list' }])).not.to.be.empty;
+    });
+
+    it('should report unknown properties, wrong types and missing properties with their paths', () => {
+        expect(
+            validateAgainstSchema(
+                AMQP_LISTEN_ACTION_SCHEMA,
+                {
+                    type: 'AMQP_LISTEN',
+                    broker: 'amqp://localhost',
+                    exchange: 'events',
+                    queue: 'test',
+                    routingKey: '#',
+                    diagramConfiguration: { hiddenField: ['password'] },
+                },
+                'listen.yaml',
+            ),
+        ).to.have.members([
+            "listen.yaml: 'diagramConfiguration.hiddenField' is not a known property",
+            "listen.yaml: should have required property 'expectedNumberOfMessages'",
+        ]);
+        expect(
+            validateAgainstSchema(
+                REST_ACTION_SCHEMA,
+                { type: 'REST', service: 'my-service', method: 1 },
+                'create-user.yaml',
+            ),
+        ).to.deep.equal(["create-user.yaml: 'method' should be string"]);
+    });
+
+    it('should report all invalid action definitions before loading any action', () => {
+        const errors = schemaErrorsOf(() =>
+            loadAllActions('src/tests/resources/invalidActions', envConfig),
+        );
+
+        expect(errors).to.have.members([
+            "src/tests/resources/invalidActions/restWithTypo.yaml: 'expectedStatusCode' is not a known property",
+            "src/tests/resources/invalidActions/restWithTypo.yaml: 'timeoutInSec' should be number",
+            "src/tests/resources/invalidActions/timerWithoutDuration.yaml: should have required property 'durationInSec'",
+        ]);
+    });
+
+    it('should validate scenario steps against the schema of the referenced action type', () => {
+        const actions = loadAllActions(
+            'src/tests/resources/actions',
+            envConfig,
+        );
+
+        const errors = schemaErrorsOf(() =>
+            loadAllScenarios('src/tests/resources/invalidScenarios', actions),
+        );
+        expect(errors).to.have.members([
+            "src/tests/resources/invalidScenarios/s1-invalidScenario.yaml: 'tag' is not a known property",
+            "src/tests/resources/invalidScenarios/s1-invalidScenario.yaml: 'actions[0].expectedStatusCode' is not a known property",
+            "src/tests/resources/invalidScenarios/s1-invalidScenario.yaml: 'actions[1]' should have required property 'name'",
+        ]);
+    });
+
+    it('should only validate the scenarios loaded by ID and the ones they import', () => {
+        const actions = loadAllActions(
+            'src/tests/resources/actions',
+            envConfig,
+        );
+
+        expect(
+            loadScenariosById(
+                'src/tests/resources/invalidScenarios/s2-validScenario.yaml',
+                actions,
+            ).map(s => s.name),
+        ).to.deep.equal(['s2-validScenario']);
+        expect(
+            schemaErrorsOf(() =>
+                loadScenariosById(
+                    'src/tests/resources/invalidScenarios/s3-importingInvalidScenario.yaml',
+                    actions,
+                ),
+            ),
+        ).to.include(
+            "src/tests/resources/invalidScenarios/s1-invalidScenario.yaml: 'tag' is not a known property",
+        );
+    });
+
+    it('should validate the steps of parallel blocks', () => {
+        expect(
+            validateScenarioDefinition(
+                {
+                    actions: [
+                        {
+                            parallel: [
+                                { name: 'create-user' },
+                                { name: 'ping', repeat: 3 },
+                                { description: 'without name' },
+                            ],
+                            race: 'yes',
+                        },
+                    ],
+                },
+                's1.yaml',
+                [],
+            ),
+        ).to.have.members([
+            "s1.yaml: 'actions[0].race' should be boolean",
+            "s1.yaml: 'actions[0].parallel[1].repeat' is not supported in a parallel block",
+            "s1.yaml: 'actions[0].parallel[2]' should have required property 'name'",
+        ]);
+    });
+
+    it('should only accept await steps referencing a previous step', () => {
+        expect(
+            validateScenarioDefinition(
+                {
+                    actions: [
+                        { await: 'listener' },
+                        { name: 'listen', id: 'listener' },
+                        { parallel: [{ name: 'ping', id: 'listener' }] },
+                        { await: 'listener', timeoutInSec: 'soon' },
+                    ],
+                },
+                's1.yaml',
+                [],
+            ),
+        ).to.have.members([
+            "s1.yaml: 'actions[0].await' references no previous step with the id 'listener'",
+            "s1.yaml: 'actions[2].parallel[0].id' is already used by a previous step",
+            "s1.yaml: 'actions[3].timeoutInSec' should be number",
+        ]);
+    });
+
+    it('should validate the arguments of flow steps against the parameters of the flow', () => {
+        const flow = {
+            name: 'login',
+            parameters: { user: null, password: 'secret' },
+            outputs: ['token'],
+        };
+
+        expect(
+            validateScenarioDefinition(
+                {
+                    actions: [
+                        { flow: 'login', with: { user: 'alt' } },
+                        { flow: 'login', with: { password: 'alt' } },
+                        { flow: 'login', with: { user: 'alt', mail: 'x' } },
+                        { flow: 'login', with: 'alt' },
+                    ],
+                },
+                's1.yaml',
+                [],
+                [flow],
+            ),
+        ).to.have.members([
+            "s1.yaml: 'actions[1].with' is missing the parameter 'user' of the flow 'login'",
+            "s1.yaml: 'actions[2].with.mail' is not a parameter of the flow 'login'",
+            "s1.yaml: 'actions[3].with' should be object",
+        ]);
+    });
+
+    it('should reject flows using properties which are only supported in scenarios', () => {
+        expect(
+            validateFlowDefinition(
+                {
+                    parameters: { user: null },
+                    actions: [{ name: 'login', background: true }],
+                    variables: { user: 'alt' },
+                },
+                'login.yaml',
+                [],
+            ),
+        ).to.have.members([
+            "login.yaml: 'actions[0].background' is not supported in a flow",
+            "login.yaml: 'variables' is not a known property",
+        ]);
+    });
+});
@@ -0,0 +1,96 @@
+import 'mocha';
+import { expect } from 'chai';
+import { validateSuite } from '../suiteValidation';
+
+describe('Suite validation', () => {
+    const BASE_DIR = 'src/tests/resources/invalidSuite';
+    const validate = (environmentName?: string): string[] =>
+        validateSuite(
+            `${BASE_DIR}/actions`,
+            `${BASE_DIR}/scenarios`,
+            `${BASE_DIR}/environment`,
+            environmentName,
+        ).issues;
+
+    it('should report every issue of the suite', () => {
+        expect(validate()).to.have.members([
+            `${BASE_DIR}/actions/createUser.yaml: 'user-service' is neither a URL nor defined in the environment configuration ${BASE_DIR}/environment/prod.yaml`,
+            `${BASE_DIR}/actions/listenForUpdates.yaml: the proto file 'src/tests/resources/proto/missing.proto' does not exist`,
+            `${BASE_DIR}/scenarios/s2-broken.yaml: the imported scenario 's0-missing' does not exist`,
+            `${BASE_DIR}/scenarios/s2-broken.yaml: 'before' references the scenario 's1-valid' which is not imported`,
+            `${BASE_DIR}/scenarios/s2-broken.yaml: 'actions[0]' references the unknown action 'deleteUser'`,
+            `${BASE_DIR}/scenarios/s2-broken.yaml: the variable '{{userName}}' is used but never defined`,
+            `${BASE_DIR}/scenarios/s4-malformed.yaml: is not valid YAML: unexpected end of the stream within a single quoted scalar at line 5, column 1:`,
+            `${BASE_DIR}/scenarios/s5-assigningVariables.yaml: the variable '{{userMail}}' is used but never defined`,
+        ]);
+    });
+
+    it('should only check the given environment', () => {
+        expect(validate('dev')).not.to.include.members([
+            `${BASE_DIR}/actions/createUser.yaml: 'user-service' is neither a URL nor defined in the environment configuration ${BASE_DIR}/environment/prod.yaml`,
+        ]);
+        expect(validate('test')).to.include(
+            `${BASE_DIR}/environment: the environment configuration 'test.yaml' does not exist`,
+        );
+    });
+
+    it('should only check the given scenario files and the scenarios they import', () => {
+        expect(
+            validateSuite(
+                `${BASE_DIR}/actions`,
+                [`${BASE_DIR}/scenarios/s2-broken.yaml`],
+                `${BASE_DIR}/environment`,
+                'dev',
+            ).issues,
+        ).to.have.members([
+            `${BASE_DIR}/actions/listenForUpdates.yaml: the proto file 'src/tests/resources/proto/missing.proto' does not exist`,
+            `${BASE_DIR}/scenarios/s2-broken.yaml: the imported scenario 's0-missing' does not exist`,
+            `${BASE_DIR}/scenarios/s2-broken.yaml: 'before' references the scenario 's1-valid' which is not imported`,
+            `${BASE_DIR}/scenarios/s2-broken.yaml: 'actions[0]' references the unknown action 'deleteUser'`,
+            `${BASE_DIR}/scenarios/s2-broken.yaml: the variable '{{userName}}' is used but never defined`,
+        ]);
+    });
+
+    it('should take variables assigned via vars as defined', () => {
+        expect(
+            validateSuite(
+                `${BASE_DIR}/actions`,
+                [`${BASE_DIR}/scenarios/s5-assigningVariables.yaml`],
+                `${BASE_DIR}/environment`,
+                'dev',
+            ).issues,
+        ).to.have.members([
+            `${BASE_DIR}/actions/listenForUpdates.yaml: the proto file 'src/tests/resources/proto/missing.proto' does not exist`,
+            // a comparison does not define the variable
+            `${BASE_DIR}/scenarios/s5-assigningVariables.yaml: the variable '{{userMail}}' is used but never defined`,
+        ]);
+    });
+
+    it('should report cyclic scenario imports', () => {
+        const cyclicScenarioDir = 'src/tests/resources/cyclicScenarios';
+
+        expect(
+            validateSuite(`${BASE_DIR}/actions`, cyclicScenarioDir).issues,
+        ).to.include.members([
+            `${cyclicScenarioDir}/s1-first.yaml: cyclic scenario import: s2-second -> s3-third -> s2-second`,
+            `${cyclicScenarioDir}/s2-second.yaml: cyclic scenario import: s2-second -> s3-third -> s2-second`,
+            `${cyclicScenarioDir}/s3-third.yaml: cyclic scenario import: s3-third -> s2-second -> s3-third`,
+        ]);
+    });
+
+    it('should accept a valid suite', () => {
+        const integrationTestBasePath = 'src/tests/integration/rest/resources';
+
+        const report = validateSuite(
+            `${integrationTestBasePath}/actions`,
+            `${integrationTestBasePath}/scenarios`,
+            `${integrationTestBasePath}/environment`,
+            undefined,
+            undefined,
+            `${integrationTestBasePath}/flows`,
+        );
+
+        expect(report.issues).to.be.empty;
+        expect(report.valid).to.be.equal(true);
+    });
+});
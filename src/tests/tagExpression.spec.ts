@@ -0,0 +1,55 @@
+import 'mocha';
+import { expect } from 'chai';
+import { parseTagExpression } from '../tagExpression';
+import { TagExpressionError } from '../model/error/TagExpressionError';
+
+describe('Tag expression', () => {
+    it('should match a single tag', () => {
+        const matches = parseTagExpression('smoke');
+
+        expect(matches(['smoke', 'slow'])).to.be.true;
+        expect(matches(['slow'])).to.be.false;
+        expect(matches([])).to.be.false;
+    });
+
+    it('should support negation and conjunction', () => {
+        const matches = parseTagExpression('smoke && !slow');
+
+        expect(matches(['smoke'])).to.be.true;
+        expect(matches(['smoke', 'slow'])).to.be.false;
+        expect(matches(['slow'])).to.be.false;
+    });
+
+    it('should bind && stronger than ||', () => {
+        const matches = parseTagExpression('a || b && c');
+
+        expect(matches(['a'])).to.be.true;
+        expect(matches(['b'])).to.be.false;
+        expect(matches(['b', 'c'])).to.be.true;
+    });
+
+    it('should support parentheses', () => {
+        const matches = parseTagExpression('!(a || b) && c');
+
+        expect(matches(['c'])).to.be.true;
+        expect(matches(['a', 'c'])).to.be.false;
+        expect(matches(['b', 'c'])).to.be.false;
+    });
+
+    it('should reject malformed expressions', () => {
+        [
+            '',
+            'a &&',
+            '(a || b',
+            'a b',
+            'a & b',
+            'a &&& b',
+            '&& a',
+            'a )',
+        ].forEach(expression =>
+            expect(() => parseTagExpression(expression)).to.throw(
+                TagExpressionError,
+            ),
+        );
+    });
+});
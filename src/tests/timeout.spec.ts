@@ -0,0 +1,62 @@
+import 'mocha';
+import { expect } from 'chai';
+import { withTimeout } from '../timeout';
+import { TimeoutError } from '../model/error/TimeoutError';
+
+describe('Timeout', () => {
+    const callbackResolvingAfter = (
+        ms: number,
+    ): {
+        promise: Promise<unknown>;
+        cancel: () => void;
+        cancelled: boolean;
+    } => {
+        const callback = {
+            promise: new Promise(resolve =>
+                setTimeout(() => resolve('done'), ms),
+            ),
+            cancelled: false,
+            cancel: () => {
+                callback.cancelled = true;
+            },
+        };
+        return callback;
+    };
+
+    it('should resolve with the result of the action if it finishes in time', async () => {
+        const callback = callbackResolvingAfter(5);
+
+        const result = await withTimeout(callback, 100, new TimeoutError(0.1));
+
+        expect(result).to.be.equal('done');
+        expect(callback.cancelled).to.be.false;
+    });
+
+    it('should cancel the action and reject with the timeout error if it takes too long', async () => {
+        const callback = callbackResolvingAfter(200);
+        const timeoutError = new TimeoutError(0.01);
+
+        const error: Error = await withTimeout(callback, 10, timeoutError).then(
+            () => expect.fail('should have timed out'),
+            e => e,
+        );
+
+        expect(error).to.be.equal(timeoutError);
+        expect(error.message).to.be.equal(
+            'Action timed out after 0.01 seconds',
+        );
+        expect(callback.cancelled).to.be.true;
+    });
+
+    it('should not start a timer without a timeout', async () => {
+        const callback = callbackResolvingAfter(5);
+
+        const result = await withTimeout(
+            callback,
+            undefined,
+            new TimeoutError(0),
+        );
+
+        expect(result).to.be.equal('done');
+    });
+});
@@ -2,10 +2,12 @@ import 'mocha';
 import { expect } from 'chai';
 import { URL } from 'url';
 import {
+    evaluateCondition,
     injectEvalAndVarsToMap,
     injectEvalAndVarsToString,
     injectVariableAccessAndEvaluate,
 } from '../variableInjection';
+import { EXPRESSION_TIMEOUT_IN_MS } from '../expressionEvaluation';
 
 describe('string injection', () => {
     it('should be able to inject vars at the end', () => {
@@ -196,6 +198,35 @@ describe('map injection', () => {
         expect(result.data).to.equal('user-u123');
     });
 
+    it('should keep the type of values consisting of a single variable', () => {
+        const variableMap = new Map<string, unknown>([
+            ['user', { name: 'alt', roles: ['admin'] }],
+            ['ids', [1, 2]],
+            ['active', false],
+            ['manager', null],
+            ['age', 42],
+        ]);
+        const result = injectEvalAndVarsToMap(
+            {
+                user: '{{user}}',
+                ids: '{{ids}}',
+                nested: [{ active: '{{active}}', manager: '{{manager}}' }],
+                age: '{{age}}',
+                label: 'age {{age}}',
+            },
+            variableMap,
+            {},
+        );
+
+        expect(result).to.deep.equal({
+            user: { name: 'alt', roles: ['admin'] },
+            ids: [1, 2],
+            nested: [{ active: false, manager: null }],
+            age: 42,
+            label: 'age 42',
+        });
+    });
+
     it('should not replace unknown key', () => {
         const variableMap = new Map();
         const result = injectEvalAndVarsToMap(
@@ -337,4 +368,46 @@ describe('variable access injection and evaluation', () => {
         // then
         expect(result).to.equal('YmFy');
     });
+
+    it('should not limit the duration of scripts like the one of expressions', () => {
+        // given
+        const expression = `const end = Date.now() + ${EXPRESSION_TIMEOUT_IN_MS +
+            100}; while (Date.now() < end) {} 42`;
+
+        // when
+        const result = injectVariableAccessAndEvaluate(expression, new Map());
+
+        // then
+        expect(result).to.equal(42);
+    });
+});
+
+describe('condition evaluation', () => {
+    it('should evaluate conditions against the variables and the outcome of the previous action', () => {
+        const variableMap = new Map<string, unknown>([
+            ['mode', 'fast'],
+            ['retries', 2],
+        ]);
+        const previous = {
+            name: 'create-user',
+            status: 'failed' as const,
+            passed: false,
+            failed: true,
+            skipped: false,
+        };
+
+        expect(evaluateCondition("{{mode}} === 'fast'", variableMap)).to.equal(
+            true,
+        );
+        expect(
+            evaluateCondition("this.get('retries') < 2", variableMap),
+        ).to.equal(false);
+        expect(
+            evaluateCondition(
+                "previous.failed && previous.name === 'create-user'",
+                variableMap,
+                previous,
+            ),
+        ).to.equal(true);
+    });
 });
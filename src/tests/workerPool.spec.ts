@@ -0,0 +1,87 @@
+import 'mocha';
+import { expect } from 'chai';
+import { createRateLimiter, runInWorkerPool } from '../workerPool';
+
+const sleep = (ms: number): Promise<void> =>
+    new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Worker pool', () => {
+    it('should never run more items than the given concurrency at the same time', async () => {
+        // given
+        let running = 0;
+        let maxRunning = 0;
+        const worker = async (item: number): Promise<number> => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await sleep(5);
+            running--;
+            return item * 2;
+        };
+
+        // when
+        const results = await runInWorkerPool([1, 2, 3, 4, 5, 6, 7], worker, {
+            concurrency: 3,
+        });
+
+        // then
+        expect(maxRunning).to.be.equal(3);
+        expect(results).to.deep.equal([2, 4, 6, 8, 10, 12, 14]);
+    });
+
+    it('should start the next item as soon as any slot frees up', async () => {
+        // given
+        const started: string[] = [];
+        const durations: { [item: string]: number } = {
+            slow: 100,
+            fast1: 5,
+            fast2: 5,
+            fast3: 5,
+        };
+        const worker = async (item: string): Promise<void> => {
+            started.push(item);
+            await sleep(durations[item]);
+        };
+
+        // when
+        const start = Date.now();
+        await runInWorkerPool(['slow', 'fast1', 'fast2', 'fast3'], worker, {
+            concurrency: 2,
+        });
+
+        // then
+        expect(started).to.deep.equal(['slow', 'fast1', 'fast2', 'fast3']);
+        expect(Date.now() - start).to.be.lessThan(150);
+    });
+
+    it('should not start any further items once it is stopped', async () => {
+        // given
+        let stopped = false;
+        const worker = async (item: number): Promise<number> => {
+            if (item === 2) stopped = true;
+            return item;
+        };
+
+        // when
+        const results = await runInWorkerPool([1, 2, 3, 4], worker, {
+            concurrency: 1,
+            isStopped: () => stopped,
+        });
+
+        // then
+        expect(results).to.deep.equal([1, 2, undefined, undefined]);
+    });
+
+    it('should space the starts according to the rate limit', async () => {
+        // given
+        const waitForStart = createRateLimiter(20);
+        const start = Date.now();
+
+        // when
+        await waitForStart();
+        await waitForStart();
+        await waitForStart();
+
+        // then
+        expect(Date.now() - start).to.be.at.least(95);
+    });
+});
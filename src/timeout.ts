@@ -0,0 +1,66 @@
+import { ActionCallback } from './model/ActionCallback';
+
+/**
+ * Races the promise of an invoked action against a timer. If the timer expires
+ * first, the action is cancelled and the returned promise is rejected with the
+ * given error.
+ * @param callback The callback of the invoked action
+ * @param timeoutInMs The timeout, no timer is started if undefined
+ * @param timeoutError The reason the returned promise is rejected with
+ */
+export function withTimeout(
+    callback: ActionCallback,
+    timeoutInMs: number | undefined,
+    timeoutError: Error,
+): Promise<unknown> {
+    if (timeoutInMs === undefined) {
+        return callback.promise;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            callback.cancel();
+            reject(timeoutError);
+        }, Math.max(timeoutInMs, 0));
+    });
+    const clearTimer = (): void => {
+        if (timer) clearTimeout(timer);
+    };
+
+    return Promise.race([callback.promise, timeout]).then(
+        result => {
+            clearTimer();
+            return result;
+        },
+        reason => {
+            clearTimer();
+            throw reason;
+        },
+    );
+}
+
+/**
+ * Allows to cancel an invoked action from outside, e.g. when another action
+ * finished a race first: the action is cancelled and the promise of the
+ * returned callback is rejected with the given reason.
+ * @param callback The callback of the invoked action
+ */
+export function cancellable(
+    callback: ActionCallback,
+): { callback: ActionCallback; cancelWith(reason: Error): void } {
+    let cancelWith: (reason: Error) => void = () => {};
+    const cancelled = new Promise<never>((_, reject) => {
+        cancelWith = reason => {
+            callback.cancel();
+            reject(reason);
+        };
+    });
+    return {
+        callback: {
+            promise: Promise.race([callback.promise, cancelled]),
+            cancel: callback.cancel,
+        },
+        cancelWith,
+    };
+}
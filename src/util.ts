@@ -11,3 +11,35 @@ export function trim(text: string, length: number, dots = '...'): string {
         ? `${text.substring(0, length - dots.length)}${dots}`
         : text;
 }
+
+/* describes why an action failed, actions may reject without an error */
+export function reasonOf(error: unknown): string {
+    return error instanceof Error
+        ? error.toString()
+        : JSON.stringify(error) ?? 'see the log';
+}
+
+/* compares JSON like values by their content, e.g. a response with an expected structure */
+export function deepEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (
+        typeof a !== 'object' ||
+        typeof b !== 'object' ||
+        a === null ||
+        b === null ||
+        Array.isArray(a) !== Array.isArray(b)
+    ) {
+        return false;
+    }
+    const objectA = a as { [key: string]: unknown };
+    const objectB = b as { [key: string]: unknown };
+    const keys = Object.keys(objectA);
+    return (
+        keys.length === Object.keys(objectB).length &&
+        keys.every(
+            key =>
+                Object.prototype.hasOwnProperty.call(objectB, key) &&
+                deepEqual(objectA[key], objectB[key]),
+        )
+    );
+}
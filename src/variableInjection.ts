@@ -1,6 +1,7 @@
-import { runInNewContext } from 'vm';
+import { evaluateExpression } from './expressionEvaluation';
 import { getLogger, LoggingContext } from './logging';
 import { nodeGlobals } from './nodeGlobals';
+import { PreviousOutcome } from './model/StepCondition';
 
 export function injectVariableAccessAndEvaluate(
     expression: string,
@@ -17,9 +18,45 @@ export function injectVariableAccessAndEvaluate(
         return previousString.replace(searchValue, variable);
     }, expression);
 
-    return runInNewContext(expressionWithVariables, {
-        ...nodeGlobals,
-        ...variables,
+    // node steps are scripts, so they may use Node's globals (e.g. `require`) and take as long as they need
+    return evaluateExpression(
+        expressionWithVariables,
+        scenarioVariables,
+        {
+            ...nodeGlobals,
+            ...variables,
+        },
+        Infinity,
+    );
+}
+
+/**
+ * Evaluates the condition of a scenario step with the helpers of the
+ * `{{{...}}}` expressions (e.g. `this.get('retries') < 3`). Variables
+ * referenced like `{{userId}}` are replaced by their (JSON) values and the
+ * outcome of the previous action is available as `previous`, e.g.
+ * `previous.failed`.
+ * @returns TRUE if the expression is truthy
+ */
+export function evaluateCondition(
+    expression: string,
+    scenarioVariables: Map<string, unknown>,
+    previous?: PreviousOutcome,
+): boolean {
+    const regex = /{{(\w*)}}/g;
+    const expressionWithValues = searchForMatchingStrings(
+        regex,
+        expression,
+    ).reduce(
+        (previousString, variable) =>
+            previousString.replace(
+                `{{${variable}}}`,
+                JSON.stringify(scenarioVariables.get(variable)) ?? 'undefined',
+            ),
+        expression,
+    );
+    return !!evaluateExpression(expressionWithValues, scenarioVariables, {
+        previous,
     });
 }
 
@@ -34,13 +71,13 @@ function injectVarsToString(
             const replaceValue = scenarioVariables.get(variable);
             if (replaceValue !== undefined) {
                 const searchValue = `{{${variable}}}`;
-                getLogger(ctx.scenario).debug(
+                getLogger(ctx.scenario, ctx.runContext).debug(
                     `Replacing '${searchValue}' with '${replaceValue}'`,
                     ctx,
                 );
                 return previousString.replace(searchValue, `${replaceValue}`);
             }
-            getLogger(ctx.scenario).debug(
+            getLogger(ctx.scenario, ctx.runContext).debug(
                 `Not able to replace {{${variable}}} because no variable with that name found!`,
                 ctx,
             );
@@ -95,16 +132,35 @@ export function injectEvalAndVarsToMap(
             // contains nested values
             copy[key] = injectEvalAndVarsToMap(value, scenarioVariables, ctx);
         } else if (typeof value === 'string') {
-            copy[key] = injectEvalAndVarsToString(
-                value,
-                scenarioVariables,
-                ctx,
-            );
+            const variable = wholeValueVariableOf(value);
+            const variableValue =
+                variable !== undefined
+                    ? scenarioVariables.get(variable)
+                    : undefined;
+            if (variableValue !== undefined) {
+                // the value is replaced as it is, e.g. an object captured from a previous response
+                getLogger(ctx.scenario, ctx.runContext).debug(
+                    `Replacing '${value}' with the value of '${variable}'`,
+                    ctx,
+                );
+                copy[key] = variableValue;
+            } else {
+                copy[key] = injectEvalAndVarsToString(
+                    value,
+                    scenarioVariables,
+                    ctx,
+                );
+            }
         }
     }
     return copy;
 }
 
+/* the name of the variable if the string consists of nothing but a reference to it, e.g. `{{user}}` */
+function wholeValueVariableOf(str: string): string | undefined {
+    return /^{{(\w+)}}$/.exec(str)?.[1];
+}
+
 function searchForMatchingStrings(regex: RegExp, str: string): string[] {
     const regexCopy = regex;
     let m;
@@ -121,24 +177,19 @@ function injectEvaluationToString(
     ctx: LoggingContext,
     vars: Map<string, unknown>,
 ): string {
-    // the vars (scenario variable) should be left available here in order to access
-    // and set them from within evaluated expressions
-
     const regex = /{{{(.*?)}}}/g;
     let result = str;
     searchForMatchingStrings(regex, result).forEach(expression => {
-        const replaceValue = (() => eval(expression)).call(
-            buildExpHelpers(vars),
-        );
+        const replaceValue = evaluateExpression(expression, vars) as string;
         if (replaceValue) {
             const searchValue = `{{{${expression}}}}`;
-            getLogger(ctx.scenario).debug(
+            getLogger(ctx.scenario, ctx.runContext).debug(
                 `Replacing '${searchValue}' with '${replaceValue}'`,
                 ctx,
             );
             result = result.replace(searchValue, replaceValue);
         } else {
-            getLogger(ctx.scenario).debug(
+            getLogger(ctx.scenario, ctx.runContext).debug(
                 `Not able to replace {{{${expression}}}} !`,
                 ctx,
             );
@@ -153,26 +204,21 @@ function injectEvaluationToNumber(
     ctx: LoggingContext,
     vars: Map<string, unknown>,
 ): [string, boolean] {
-    // the vars (scenario variable) should be left available here in order to access
-    // and set them from within evaluated expressions
-
     const regex = /<<<(.*?)>>>/g;
     let foundNumericExpression = false;
     let result = str;
     searchForMatchingStrings(regex, result).forEach(expression => {
         foundNumericExpression = true;
-        const replaceValue = (() => eval(expression)).call(
-            buildExpHelpers(vars),
-        );
+        const replaceValue = evaluateExpression(expression, vars) as string;
         if (replaceValue) {
             const searchValue = `<<<${expression}>>>`;
-            getLogger(ctx.scenario).debug(
+            getLogger(ctx.scenario, ctx.runContext).debug(
                 `Replacing '"${searchValue}"' with '${replaceValue}'`,
                 ctx,
             );
             result = result.replace(searchValue, replaceValue);
         } else {
-            getLogger(ctx.scenario).debug(
+            getLogger(ctx.scenario, ctx.runContext).debug(
                 `Not able to replace {{{${expression}}}} !`,
                 ctx,
             );
@@ -181,40 +227,3 @@ function injectEvaluationToNumber(
 
     return [result, foundNumericExpression];
 }
-
-function buildExpHelpers(vars: Map<string, any>): unknown {
-    return {
-        get(name: string): any {
-            return vars.get(name);
-        },
-        set(name: string, value: any) {
-            return vars.set(name, value);
-        },
-        getAndInc(name: string): number {
-            const currentValue = vars.get(name);
-            vars.set(name, currentValue + 1);
-            return currentValue;
-        },
-        getAndIncBy(name: string, howMuch: number): number {
-            const currentValue = vars.get(name);
-            vars.set(name, currentValue + howMuch);
-            return currentValue;
-        },
-        incAndGet(name: string): number {
-            const targetValue = vars.get(name) + 1;
-            vars.set(name, targetValue);
-            return targetValue;
-        },
-        incByAndGet(name: string, howMuch: number): number {
-            const targetValue = vars.get(name) + howMuch;
-            vars.set(name, targetValue);
-            return targetValue;
-        },
-        datePlusMinutesIso(minutes: number): string {
-            return new Date(Date.now() + minutes * 60e3).toISOString();
-        },
-        timestampPlusMinutes(minutes: number): number {
-            return Date.now() + minutes * 60e3;
-        },
-    };
-}
@@ -0,0 +1,71 @@
+const sleep = (ms: number): Promise<void> =>
+    new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Creates a function which resolves as soon as the next start is allowed with
+ * regard to the given rate, i.e. consecutive starts are spaced evenly by
+ * `1000 / startsPerSecond` milliseconds.
+ * @param startsPerSecond The maximum number of starts per second
+ */
+export function createRateLimiter(
+    startsPerSecond: number,
+): () => Promise<void> {
+    const intervalInMs = 1000 / startsPerSecond;
+    let nextStart = 0;
+
+    return () => {
+        const now = Date.now();
+        const delay = Math.max(0, nextStart - now);
+        nextStart = Math.max(now, nextStart) + intervalInMs;
+        return sleep(delay);
+    };
+}
+
+export interface WorkerPoolOptions {
+    /* the maximum number of items being processed at the same time */
+    readonly concurrency: number;
+    /* optional limit of how many items may be started per second */
+    readonly startsPerSecond?: number;
+    /* once this returns true, no further items are started */
+    readonly isStopped?: () => boolean;
+}
+
+/**
+ * Processes the given items with at most `concurrency` workers running at the
+ * same time. As soon as a worker is finished, the next item is started, so a
+ * single slow item only blocks its own slot.
+ * @param items The items to be processed
+ * @param worker The function processing a single item
+ * @param options The concurrency and rate limit options
+ * @returns The results in the order of the given items, undefined for the
+ * items which were not started because the pool was stopped
+ */
+export async function runInWorkerPool<T, R>(
+    items: T[],
+    worker: (item: T, index: number) => Promise<R>,
+    {
+        concurrency,
+        startsPerSecond,
+        isStopped = () => false,
+    }: WorkerPoolOptions,
+): Promise<(R | undefined)[]> {
+    const results: (R | undefined)[] = new Array(items.length);
+    const waitForStart =
+        startsPerSecond !== undefined && startsPerSecond > 0
+            ? createRateLimiter(startsPerSecond)
+            : () => Promise.resolve();
+    let nextIndex = 0;
+
+    const runWorker = async (): Promise<void> => {
+        while (nextIndex < items.length && !isStopped()) {
+            const index = nextIndex++;
+            await waitForStart(); // eslint-disable-line no-await-in-loop
+            if (isStopped()) return;
+            results[index] = await worker(items[index], index); // eslint-disable-line no-await-in-loop
+        }
+    };
+
+    const numberOfWorkers = Math.max(1, Math.min(concurrency, items.length));
+    await Promise.all(Array.from({ length: numberOfWorkers }, runWorker));
+    return results;
+}
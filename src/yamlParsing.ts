@@ -1,16 +1,24 @@
 import { readFileSync } from 'fs';
 import { safeLoad } from 'js-yaml';
 import { getLogger } from './logging';
+import { RunContext } from './model/RunContext';
 
 const FILE_SUFFIX = '.yaml';
 
-export const loadYamlConfiguration = (pathToFile: string): any => {
+export const loadYamlConfiguration = (
+    pathToFile: string,
+    runContext?: RunContext,
+): any => {
     if (pathToFile && pathToFile.endsWith(FILE_SUFFIX)) {
         const yamlConfig = safeLoad(readFileSync(pathToFile, 'utf8'));
-        getLogger().debug(`Successfully loaded YAML config: ${pathToFile}`);
+        getLogger(undefined, runContext).debug(
+            `Successfully loaded YAML config: ${pathToFile}`,
+        );
         return yamlConfig;
     }
-    getLogger().warn(`Skipping unsupported file: ${pathToFile}`);
+    getLogger(undefined, runContext).warn(
+        `Skipping unsupported file: ${pathToFile}`,
+    );
     return undefined;
 };
 